@@ -1,21 +1,67 @@
 import React, { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Trash2, Check, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
-import { BoardElement, TextElement } from '../types';
+import { Trash2, Check, AlignLeft, AlignCenter, AlignRight, BringToFront, SendToBack, ArrowUp, ArrowDown, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Lock, Unlock } from 'lucide-react';
+import { BoardElement, TextElement, ArrowheadStyle, ConnectorRouting, StrokeStyle, ZOrderDirection } from '../types';
+import { isFillable, isStroked } from '../lib/styles';
+import { Alignment, Distribution } from '../lib/align';
+import PreviewInput from './PreviewInput';
 
 interface ContextMenuProps {
   x: number;
   y: number;
   element: BoardElement;
-  onDelete: (id: string) => void;
+  selection: BoardElement[];
+  onDelete: (ids: string[]) => void;
   onUpdateElement: (element: BoardElement) => void;
+  onUpdateElements: (elements: BoardElement[]) => void;
+  // Shows restyled elements without changing the board, or stops showing them with null.
+  onPreviewElements: (elements: BoardElement[] | null) => void;
+  onReorder: (direction: ZOrderDirection) => void;
+  canAlign: boolean;
+  canDistribute: boolean;
+  onAlign: (alignment: Alignment) => void;
+  onDistribute: (distribution: Distribution) => void;
   onClose: () => void;
 }
 
 const stickyNoteColors = ['#FFF9B1', '#FFC3C3', '#C3E5FF', '#D4FFC3'];
 const fontFamilies = ['Poppins', 'Arial', 'Courier New', 'Georgia', 'Times New Roman'];
+const arrowheadStyles: { id: ArrowheadStyle; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'open', label: 'Open' },
+  { id: 'filled', label: 'Filled' },
+  { id: 'both', label: 'Both ends' },
+];
+const layerActions: { id: ZOrderDirection; label: string; shortcut: string; icon: React.ElementType }[] = [
+  { id: 'front', label: 'Bring to front', shortcut: 'Ctrl+Shift+]', icon: BringToFront },
+  { id: 'forward', label: 'Bring forward', shortcut: 'Ctrl+]', icon: ArrowUp },
+  { id: 'backward', label: 'Send backward', shortcut: 'Ctrl+[', icon: ArrowDown },
+  { id: 'back', label: 'Send to back', shortcut: 'Ctrl+Shift+[', icon: SendToBack },
+];
+const alignActions: { id: Alignment; label: string; icon: React.ElementType }[] = [
+  { id: 'left', label: 'Align left', icon: AlignStartVertical },
+  { id: 'center', label: 'Align center', icon: AlignCenterVertical },
+  { id: 'right', label: 'Align right', icon: AlignEndVertical },
+  { id: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { id: 'middle', label: 'Align middle', icon: AlignCenterHorizontal },
+  { id: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
+const distributeActions: { id: Distribution; label: string; icon: React.ElementType }[] = [
+  { id: 'horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter },
+  { id: 'vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter },
+];
+const shapeFillColors = ['transparent', '#FFFFFF', '#fecaca', '#fef08a', '#d9f99d', '#bfdbfe'];
+const strokeStyles: { id: StrokeStyle; label: string }[] = [
+  { id: 'solid', label: 'Solid' },
+  { id: 'dashed', label: 'Dashed' },
+  { id: 'dotted', label: 'Dotted' },
+];
+const connectorRoutings: { id: ConnectorRouting; label: string }[] = [
+  { id: 'straight', label: 'Straight' },
+  { id: 'elbow', label: 'Elbow' },
+];
 
-const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, element, onDelete, onUpdateElement, onClose }) => {
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, element, selection, onDelete, onUpdateElement, onUpdateElements, onPreviewElements, onReorder, canAlign, canDistribute, onAlign, onDistribute, onClose }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
   // Close menu if clicking outside
@@ -31,13 +77,44 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, element, onDelete, onUp
     };
   }, [onClose]);
   
+  // Note colors apply to every selected note, so a whole cluster can be recolored at once.
   const handleColorChange = (color: string) => {
-    if (element && element.type === 'note') {
-      onUpdateElement({ ...element, color });
+    const notes = selection.filter(el => el.type === 'note');
+    if (notes.length > 0) {
+      onUpdateElements(notes.map(note => ({ ...note, color })));
       onClose();
     }
   };
 
+  // Stroke and fill changes apply to every selected element that supports them.
+  const restyle = (canRestyle: (el: BoardElement) => boolean, changes: Partial<BoardElement>) => {
+    return (selection.length > 0 ? selection : [element]).filter(canRestyle).map(el => ({ ...el, ...changes }) as BoardElement);
+  };
+
+  const handleStyleChange = (canRestyle: (el: BoardElement) => boolean, changes: Partial<BoardElement>) => {
+    const restyled = restyle(canRestyle, changes);
+    if (restyled.length > 0) onUpdateElements(restyled);
+    onPreviewElements(null);
+  };
+
+  // While the opacity slider is dragged, the selection is only previewed.
+  const handleStylePreview = (canRestyle: (el: BoardElement) => boolean, changes: Partial<BoardElement>) => {
+    const restyled = restyle(canRestyle, changes);
+    if (restyled.length > 0) onPreviewElements(restyled);
+  };
+
+  const handleArrowheadChange = (arrowhead: ArrowheadStyle) => {
+    if (element.type === 'arrow' || element.type === 'connector') {
+      onUpdateElement({ ...element, arrowhead });
+    }
+  };
+
+  const handleRoutingChange = (routing: ConnectorRouting) => {
+    if (element.type === 'connector') {
+      onUpdateElement({ ...element, routing });
+    }
+  };
+
   const handlePropertyChange = (property: keyof TextElement, value: any) => {
     if (element.type === 'text') {
       onUpdateElement({ ...element, [property]: value });
@@ -57,13 +134,72 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, element, onDelete, onUp
       <ul className="p-1">
         <li>
           <button
-            onClick={() => onDelete(element.id)}
+            onClick={() => onDelete(selection.length > 0 ? selection.map(el => el.id) : [element.id])}
             className="w-full flex items-center gap-3 px-3 py-1.5 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 rounded-md"
           >
             <Trash2 className="w-4 h-4" />
-            <span>Delete</span>
+            <span>{selection.length > 1 ? `Delete ${selection.length} items` : 'Delete'}</span>
           </button>
         </li>
+        <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
+        <li className="px-3 pt-1 text-xs font-semibold text-gray-500 dark:text-gray-400">Arrange</li>
+        {layerActions.map(layer => (
+          <li key={layer.id}>
+            <button
+              onClick={() => onReorder(layer.id)}
+              className="w-full flex items-center gap-3 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+              title={layer.shortcut}
+            >
+              <layer.icon className="w-4 h-4" />
+              <span>{layer.label}</span>
+            </button>
+          </li>
+        ))}
+        {canAlign && (
+          <>
+            <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
+            <li className="px-3 pt-1 text-xs font-semibold text-gray-500 dark:text-gray-400">Align</li>
+            <li>
+              <div className="flex items-center justify-around px-2 py-1.5">
+                {alignActions.map(align => (
+                  <button
+                    key={align.id}
+                    onClick={() => onAlign(align.id)}
+                    className="p-1 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    title={align.label}
+                  >
+                    <align.icon className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+            </li>
+            {canDistribute && distributeActions.map(distribute => (
+              <li key={distribute.id}>
+                <button
+                  onClick={() => onDistribute(distribute.id)}
+                  className="w-full flex items-center gap-3 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                >
+                  <distribute.icon className="w-4 h-4" />
+                  <span>{distribute.label}</span>
+                </button>
+              </li>
+            ))}
+          </>
+        )}
+        {element.type === 'page' && (
+          <>
+            <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
+            <li>
+              <button
+                onClick={() => { onUpdateElement({ ...element, locked: !element.locked }); onClose(); }}
+                className="w-full flex items-center gap-3 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+              >
+                {element.locked ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                <span>{element.locked ? 'Unlock page' : 'Lock page'}</span>
+              </button>
+            </li>
+          </>
+        )}
         {element.type === 'note' && (
           <>
             <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
@@ -85,6 +221,89 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, element, onDelete, onUp
             </li>
           </>
         )}
+        {isStroked(element) && (
+          <>
+            <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
+            <li className="px-3 pt-1 text-xs font-semibold text-gray-500 dark:text-gray-400">Style</li>
+            {isFillable(element) && (
+              <li>
+                <div className="flex items-center justify-around px-2 py-1.5">
+                  {shapeFillColors.map(c => (
+                    <button
+                      key={c}
+                      onClick={() => handleStyleChange(isFillable, { fillColor: c })}
+                      className="relative w-5 h-5 rounded-full border border-gray-300 dark:border-gray-600 flex items-center justify-center overflow-hidden"
+                      style={{ backgroundColor: c }}
+                      title={c === 'transparent' ? 'No fill' : c}
+                    >
+                      {c === 'transparent' && <span className="absolute left-1/2 top-0 h-full w-px bg-red-500 rotate-45" />}
+                      {(element.fillColor ?? 'transparent') === c && <Check className="w-3 h-3 text-gray-700" />}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            )}
+            <li>
+              <div className="flex items-center bg-gray-100 dark:bg-gray-700 rounded-md p-0.5 mx-2 my-1">
+                {strokeStyles.map(style => (
+                  <button
+                    key={style.id}
+                    onClick={() => handleStyleChange(isStroked, { strokeStyle: style.id })}
+                    className={`flex-1 px-1 py-0.5 text-xs rounded ${(element.strokeStyle ?? 'solid') === style.id ? 'bg-primary text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+                  >
+                    {style.label}
+                  </button>
+                ))}
+              </div>
+            </li>
+            <li className="flex items-center justify-between gap-2 px-3 py-1">
+              <label className="text-sm text-gray-600 dark:text-gray-300">Opacity</label>
+              <PreviewInput
+                type="range"
+                min="10"
+                max="100"
+                value={Math.round((element.opacity ?? 1) * 100)}
+                onPreview={value => handleStylePreview(isStroked, { opacity: parseInt(value, 10) / 100 })}
+                onCommit={value => handleStyleChange(isStroked, { opacity: parseInt(value, 10) / 100 })}
+                className="w-24"
+              />
+            </li>
+          </>
+        )}
+        {element.type === 'connector' && (
+          <>
+            <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
+            <li className="px-3 pt-1 text-xs font-semibold text-gray-500 dark:text-gray-400">Routing</li>
+            {connectorRoutings.map(routing => (
+              <li key={routing.id}>
+                <button
+                  onClick={() => handleRoutingChange(routing.id)}
+                  className="w-full flex items-center justify-between px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                >
+                  <span>{routing.label}</span>
+                  {element.routing === routing.id && <Check className="w-4 h-4 text-primary" />}
+                </button>
+              </li>
+            ))}
+          </>
+        )}
+        {(element.type === 'arrow' || element.type === 'connector') && (
+          <>
+            <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
+            <li className="px-3 pt-1 text-xs font-semibold text-gray-500 dark:text-gray-400">Arrowheads</li>
+            {arrowheadStyles.map(style => (
+              <li key={style.id}>
+                <button
+                  onClick={() => handleArrowheadChange(style.id)}
+                  className="w-full flex items-center justify-between px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                >
+                  <span>{style.label}</span>
+                  {element.arrowhead === style.id && <Check className="w-4 h-4 text-primary" />}
+                </button>
+              </li>
+            ))}
+          </>
+        )}
         {element.type === 'text' && (
           <>
             <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import Modal from './Modal';
+import { ExportFormat, ExportOptions, ExportScope } from '../lib/export';
+
+interface ExportDialogProps {
+  hasSelection: boolean;
+  onExport: (scope: ExportScope, options: ExportOptions) => Promise<void>;
+  // Resolves to the features the format couldn't carry, to report before closing.
+  onSaveBoard: (format: BoardSaveFormat, embedImages: boolean) => Promise<string[]>;
+  onClose: () => void;
+}
+
+// These save the board itself, in our own file format or Excalidraw's, rather than a picture of it.
+export type BoardSaveFormat = 'board' | 'excalidraw';
+type DialogFormat = ExportFormat | BoardSaveFormat;
+
+const formats: { id: DialogFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'svg', label: 'SVG' },
+  { id: 'pdf', label: 'PDF' },
+  { id: 'board', label: 'Board file' },
+  { id: 'excalidraw', label: 'Excalidraw' },
+];
+const scopes: { id: ExportScope; label: string }[] = [
+  { id: 'board', label: 'Whole board' },
+  { id: 'viewport', label: 'Current view' },
+  { id: 'selection', label: 'Selection' },
+];
+const scales = [1, 2, 3];
+
+const optionClass = (active: boolean) => `flex-1 px-3 py-1.5 text-sm rounded-md border ${active
+  ? 'bg-primary text-white border-primary'
+  : 'border-slate-300 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-700'} disabled:opacity-40 disabled:hover:bg-transparent`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ hasSelection, onExport, onSaveBoard, onClose }) => {
+  const [format, setFormat] = useState<DialogFormat>('png');
+  const [scope, setScope] = useState<ExportScope>(hasSelection ? 'selection' : 'board');
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [embedImages, setEmbedImages] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dropped, setDropped] = useState<string[] | null>(null);
+  const isBoardSave = format === 'board' || format === 'excalidraw';
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      if (format === 'board' || format === 'excalidraw') {
+        const droppedFeatures = await onSaveBoard(format, embedImages);
+        if (droppedFeatures.length > 0) {
+          setDropped(droppedFeatures);
+          return;
+        }
+      } else {
+        // PDF pages are always white, so the background choice only applies to PNG and SVG.
+        await onExport(scope, { format, scale, background: transparent && format !== 'pdf' ? null : '#FFFFFF' });
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error exporting board:', err);
+      setError(err instanceof Error ? err.message : 'The export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (dropped) {
+    return (
+      <Modal onClose={onClose} title="Export Board">
+        <p className="text-gray-600 dark:text-gray-300">The file was saved. These features have no Excalidraw equivalent and were left out or approximated:</p>
+        <ul className="mt-2 list-disc pl-5 text-sm text-amber-600 dark:text-amber-400">
+          {dropped.map(feature => <li key={feature}>{feature}</li>)}
+        </ul>
+        <div className="mt-6 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover">Done</button>
+        </div>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal onClose={onClose} title="Export Board">
+      <div className="space-y-4">
+        <div>
+          <p className="mb-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300">Format</p>
+          <div className="flex gap-2">
+            {formats.map(f => (
+              <button key={f.id} onClick={() => setFormat(f.id)} className={optionClass(format === f.id)}>{f.label}</button>
+            ))}
+          </div>
+        </div>
+        {!isBoardSave && (
+          <div>
+            <p className="mb-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300">Area</p>
+            <div className="flex gap-2">
+              {scopes.map(s => (
+                <button key={s.id} onClick={() => setScope(s.id)} disabled={s.id === 'selection' && !hasSelection} className={optionClass(scope === s.id)}>{s.label}</button>
+              ))}
+            </div>
+          </div>
+        )}
+        {format === 'png' && (
+          <div>
+            <p className="mb-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300">Scale</p>
+            <div className="flex gap-2">
+              {scales.map(s => (
+                <button key={s} onClick={() => setScale(s)} className={optionClass(scale === s)}>{s}x</button>
+              ))}
+            </div>
+          </div>
+        )}
+        {format === 'board' && (
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input type="checkbox" checked={embedImages} onChange={e => setEmbedImages(e.target.checked)} className="accent-primary" />
+            Embed images so the file opens without access to this room's uploads
+          </label>
+        )}
+        {(format === 'png' || format === 'svg') && (
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input type="checkbox" checked={transparent} onChange={e => setTransparent(e.target.checked)} className="accent-primary" />
+            Transparent background
+          </label>
+        )}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+      <div className="mt-6 flex justify-end space-x-4">
+        <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">Cancel</button>
+        <button onClick={handleExport} disabled={isExporting} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-60">
+          {isExporting && <Loader2 className="w-4 h-4 animate-spin" />}
+          Export
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default ExportDialog;
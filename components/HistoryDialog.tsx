@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Pause, Play, RotateCcw } from 'lucide-react';
+import Modal from './Modal';
+import { BoardElement } from '../types';
+import { CrdtDocument } from '../lib/crdt';
+import { applyBoardEvent, getBoardElements } from '../lib/boardDocument';
+import { BoardHistory, SavedBoardEvent, loadBoardHistory } from '../lib/snapshots';
+import { renderPreviewSvg } from '../lib/export';
+import { fetchImageDataUrls } from '../lib/images';
+
+// How long playback shows each event.
+const PLAYBACK_STEP_MS = 120;
+// How many events apart the versions kept for jumping around the history are.
+const CHECKPOINT_INTERVAL = 50;
+
+interface HistoryDialogProps {
+  roomId: string;
+  // Only the host can bring back a past version.
+  canRestore: boolean;
+  onRestore: (elements: BoardElement[]) => void;
+  onClose: () => void;
+}
+
+// Consecutive events by the same author within the same minute. `end` is the position just after
+// the group's last event.
+interface EventGroup {
+  authorName: string;
+  time: Date;
+  count: number;
+  end: number;
+}
+
+const groupEvents = (events: SavedBoardEvent[]): EventGroup[] => {
+  const groups: EventGroup[] = [];
+  let previous: SavedBoardEvent | null = null;
+  events.forEach((event, i) => {
+    const time = new Date(event.created_at);
+    const sameGroup = previous && previous.user_id === event.user_id
+      && Math.floor(new Date(previous.created_at).getTime() / 60000) === Math.floor(time.getTime() / 60000);
+    if (sameGroup) {
+      const group = groups[groups.length - 1];
+      group.count++;
+      group.end = i + 1;
+    } else {
+      groups.push({ authorName: event.authorName ?? 'Unknown', time, count: 1, end: i + 1 });
+    }
+    previous = event;
+  });
+  return groups;
+};
+
+// Builds the board as of any number of events without keeping every version: one is kept every
+// CHECKPOINT_INTERVAL events, and moving forward from the last version built, as playback does, only
+// applies the events in between.
+const createHistoryReader = (history: BoardHistory) => {
+  const checkpoints = new Map<number, CrdtDocument>([[0, history.base]]);
+  let last = { position: 0, doc: history.base };
+  return (position: number): CrdtDocument => {
+    let start = position - (position % CHECKPOINT_INTERVAL);
+    while (!checkpoints.has(start)) start -= CHECKPOINT_INTERVAL;
+    let doc = checkpoints.get(start)!;
+    if (last.position <= position && last.position > start) {
+      start = last.position;
+      doc = last.doc;
+    }
+    for (let i = start; i < position; i++) {
+      doc = applyBoardEvent(doc, history.events[i]);
+      if ((i + 1) % CHECKPOINT_INTERVAL === 0) checkpoints.set(i + 1, doc);
+    }
+    last = { position, doc };
+    return doc;
+  };
+};
+
+const isImageSource = (el: BoardElement) => el.type === 'image' || el.type === 'page';
+
+const HistoryDialog: React.FC<HistoryDialogProps> = ({ roomId, canRestore, onRestore, onClose }) => {
+  const [history, setHistory] = useState<BoardHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // How many events in the board being previewed is; all of them is the current board.
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    loadBoardHistory(roomId)
+      .then(loaded => {
+        setHistory(loaded);
+        setPosition(loaded.events.length);
+      })
+      .catch(err => {
+        console.error('Error loading board history:', err);
+        setError('The board history could not be loaded.');
+      });
+  }, [roomId]);
+
+  const readHistory = useMemo(() => history && createHistoryReader(history), [history]);
+  const groups = useMemo(() => groupEvents(history?.events ?? []).reverse(), [history]);
+  const eventCount = history?.events.length ?? 0;
+
+  const previewElements = useMemo(() => readHistory ? getBoardElements(readHistory(position)) : [], [readHistory, position]);
+
+  // Stored images are fetched as data URLs, so the preview shows them as restoring would.
+  const [images, setImages] = useState<Map<string, string>>(new Map());
+  const requestedImagesRef = useRef(new Set<string>());
+  useEffect(() => {
+    const sources = [...new Set(previewElements.flatMap(el => isImageSource(el) && !el.src.startsWith('data:') ? [el.src] : []))]
+      .filter(src => !requestedImagesRef.current.has(src));
+    if (sources.length === 0) return;
+    sources.forEach(src => requestedImagesRef.current.add(src));
+    fetchImageDataUrls(sources).then(fetched => setImages(current => new Map([...current, ...fetched])));
+  }, [previewElements]);
+
+  const previewSrc = useMemo(() => {
+    const svg = renderPreviewSvg(previewElements, images);
+    return svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : null;
+  }, [previewElements, images]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (position >= eventCount) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPosition(position + 1), PLAYBACK_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, eventCount]);
+
+  const handleTogglePlayback = () => {
+    if (!isPlaying && position >= eventCount) setPosition(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleSelect = (end: number) => {
+    setIsPlaying(false);
+    setPosition(end);
+  };
+
+  const handleRestore = () => {
+    onRestore(previewElements);
+    onClose();
+  };
+
+  const isGroupSelected = (group: EventGroup) => position <= group.end && position > group.end - group.count;
+
+  return (
+    <Modal onClose={onClose} title="Version History" wide>
+      {!history ? (
+        error ? <p className="text-sm text-red-500">{error}</p> : <Loader2 className="mx-auto w-6 h-6 animate-spin" />
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4">
+          <ul className="md:w-56 max-h-80 overflow-y-auto -mx-2 md:mx-0">
+            {groups.map(group => (
+              <li key={group.end}>
+                <button
+                  onClick={() => handleSelect(group.end)}
+                  className={`w-full p-2 rounded-lg text-left ${isGroupSelected(group) ? 'bg-primary/20' : 'hover:bg-slate-200/80 dark:hover:bg-slate-700/80'}`}
+                >
+                  <p className="font-semibold truncate">{group.authorName}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {group.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · {group.count} {group.count === 1 ? 'change' : 'changes'}
+                  </p>
+                </button>
+              </li>
+            ))}
+            <li>
+              <button
+                onClick={() => handleSelect(0)}
+                className={`w-full p-2 rounded-lg text-left ${position === 0 ? 'bg-primary/20' : 'hover:bg-slate-200/80 dark:hover:bg-slate-700/80'}`}
+              >
+                <p className="font-semibold">Start of history</p>
+                <p className="text-sm text-gray-600 dark:text-gray-300">Earlier changes are kept as one saved version.</p>
+              </button>
+            </li>
+          </ul>
+          <div className="flex-1 min-w-0 flex flex-col gap-3">
+            <div className="h-72 flex items-center justify-center rounded-lg bg-white border border-slate-300 dark:border-slate-600 overflow-hidden">
+              {previewSrc ? <img src={previewSrc} alt="Board preview" className="max-w-full max-h-full" /> : <p className="text-sm text-gray-500">Empty board</p>}
+            </div>
+            <div className="flex items-center gap-3">
+              <button onClick={handleTogglePlayback} disabled={eventCount === 0} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-60" title={isPlaying ? 'Pause' : 'Play'}>
+                {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={eventCount}
+                value={position}
+                onChange={e => handleSelect(Number(e.target.value))}
+                className="flex-1 accent-primary"
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-300 tabular-nums">{position}/{eventCount}</span>
+            </div>
+            {canRestore && (
+              <button
+                onClick={handleRestore}
+                disabled={position === eventCount}
+                className="self-end flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-60"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Restore this version
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default HistoryDialog;
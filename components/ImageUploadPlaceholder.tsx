@@ -0,0 +1,42 @@
+import React from 'react';
+import { AlertTriangle, Loader2, X } from 'lucide-react';
+import { ImageUpload } from '../types';
+
+interface ImageUploadPlaceholderProps {
+  upload: ImageUpload;
+  onDismiss: (id: string) => void;
+}
+
+// Stands in for an image on the board while it uploads, and reports the error if it fails.
+const ImageUploadPlaceholder: React.FC<ImageUploadPlaceholderProps> = ({ upload, onDismiss }) => {
+  const failed = !!upload.error;
+  return (
+    <div
+      className={`absolute flex flex-col items-center justify-center gap-2 p-3 rounded-md border-2 border-dashed text-center text-xs ${failed
+        ? 'border-red-400 bg-red-50/90 text-red-600 dark:bg-red-500/10 dark:text-red-400'
+        : 'border-slate-400 bg-white/70 text-slate-600 dark:bg-slate-800/70 dark:text-slate-300'}`}
+      style={{ left: upload.x, top: upload.y, width: upload.width, height: upload.height }}
+    >
+      {failed ? (
+        <>
+          <button onClick={() => onDismiss(upload.id)} className="absolute top-1 right-1 p-0.5 rounded hover:bg-red-100 dark:hover:bg-red-500/20" title="Dismiss">
+            <X className="w-3.5 h-3.5" />
+          </button>
+          <AlertTriangle className="w-5 h-5" />
+          <span className="font-semibold">Couldn't upload {upload.name || 'image'}</span>
+          <span>{upload.error}</span>
+        </>
+      ) : (
+        <>
+          <Loader2 className="w-5 h-5 animate-spin" />
+          <span className="truncate max-w-full">Uploading {upload.name || 'image'}…</span>
+          <div className="w-3/4 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+            <div className="h-full bg-primary transition-[width]" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImageUploadPlaceholder;
@@ -0,0 +1,96 @@
+import React, { useRef } from 'react';
+import { BoardElement, Point, Viewport } from '../types';
+import { Bounds, getRotatedBounds } from '../lib/geometry';
+import { ViewportSize, getVisibleBounds } from '../lib/viewport';
+
+interface MinimapProps {
+  elements: BoardElement[];
+  viewport: Viewport;
+  size: ViewportSize;
+  onNavigate: (point: Point) => void;
+}
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+const MINIMAP_PADDING = 10;
+
+const unionBounds = (a: Bounds, b: Bounds): Bounds => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+// An overview of the whole board with the visible area outlined. Clicking or dragging moves the view.
+const Minimap: React.FC<MinimapProps> = ({ elements, viewport, size, onNavigate }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const visible = getVisibleBounds(viewport, size);
+  const world = elements.reduce((acc, el) => unionBounds(acc, getRotatedBounds(el)), visible);
+  const scale = Math.min(
+    (MINIMAP_WIDTH - MINIMAP_PADDING * 2) / Math.max(world.width, 1),
+    (MINIMAP_HEIGHT - MINIMAP_PADDING * 2) / Math.max(world.height, 1),
+  );
+  const offsetX = (MINIMAP_WIDTH - world.width * scale) / 2 - world.x * scale;
+  const offsetY = (MINIMAP_HEIGHT - world.height * scale) / 2 - world.y * scale;
+
+  const navigate = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    onNavigate({
+      x: (e.clientX - rect.left - offsetX) / scale,
+      y: (e.clientY - rect.top - offsetY) / scale,
+    });
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      width={MINIMAP_WIDTH}
+      height={MINIMAP_HEIGHT}
+      className="bg-white/70 dark:bg-slate-900/70 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl cursor-pointer"
+      style={{ touchAction: 'none' }}
+      onPointerDown={e => {
+        isDraggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        navigate(e);
+      }}
+      onPointerMove={e => isDraggingRef.current && navigate(e)}
+      onPointerUp={() => { isDraggingRef.current = false; }}
+    >
+      <g transform={`translate(${offsetX} ${offsetY}) scale(${scale})`}>
+        {elements.map(el => {
+          const b = getRotatedBounds(el);
+          const fill = el.type === 'note' ? el.color : 'currentColor';
+          return (
+            <rect
+              key={el.id}
+              x={b.x}
+              y={b.y}
+              width={Math.max(b.width, 1 / scale)}
+              height={Math.max(b.height, 1 / scale)}
+              fill={fill}
+              className="text-slate-400 dark:text-slate-500"
+              fillOpacity={el.type === 'note' ? 0.9 : 0.6}
+            />
+          );
+        })}
+        <rect
+          x={visible.x}
+          y={visible.y}
+          width={visible.width}
+          height={visible.height}
+          fill="rgba(59, 130, 246, 0.08)"
+          stroke="#3B82F6"
+          strokeWidth={2 / scale}
+        />
+      </g>
+    </svg>
+  );
+};
+
+export default Minimap;
@@ -7,9 +7,11 @@ interface ModalProps {
   onClose: () => void;
   title: string;
   children: ReactNode;
+  // For dialogs that show a preview next to their content.
+  wide?: boolean;
 }
 
-const Modal: React.FC<ModalProps> = ({ onClose, title, children }) => {
+const Modal: React.FC<ModalProps> = ({ onClose, title, children, wide = false }) => {
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -23,7 +25,7 @@ const Modal: React.FC<ModalProps> = ({ onClose, title, children }) => {
         animate={{ scale: 1, opacity: 1 }}
         exit={{ scale: 0.9, opacity: 0 }}
         transition={{ type: 'spring', stiffness: 300, damping: 30 }}
-        className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-xl shadow-2xl w-full max-w-md"
+        className={`bg-white/80 dark:bg-slate-900/80 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-xl shadow-2xl w-full ${wide ? 'max-w-3xl' : 'max-w-md'}`}
         onClick={(e) => e.stopPropagation()}
       >
         <header className="p-4 flex justify-between items-center border-b border-slate-300 dark:border-slate-700">
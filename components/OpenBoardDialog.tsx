@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import Modal from './Modal';
+import { LoadedBoardFile } from '../lib/boardFile';
+
+export type BoardImportMode = 'add' | 'replace';
+
+interface OpenBoardDialogProps {
+  loaded: LoadedBoardFile | null;
+  error: string | null;
+  onImport: (mode: BoardImportMode) => Promise<void>;
+  onClose: () => void;
+}
+
+const OpenBoardDialog: React.FC<OpenBoardDialogProps> = ({ loaded, error, onImport, onClose }) => {
+  const [importingMode, setImportingMode] = useState<BoardImportMode | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImport = async (mode: BoardImportMode) => {
+    setImportingMode(mode);
+    setImportError(null);
+    try {
+      await onImport(mode);
+      onClose();
+    } catch (err) {
+      console.error('Error importing board:', err);
+      setImportError(err instanceof Error ? err.message : 'The board could not be imported.');
+    } finally {
+      setImportingMode(null);
+    }
+  };
+
+  if (!loaded) {
+    return (
+      <Modal onClose={onClose} title="Open Board">
+        <p className="text-red-500">{error ?? 'This file could not be opened.'}</p>
+        <div className="mt-6 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">Close</button>
+        </div>
+      </Modal>
+    );
+  }
+
+  const { file, skipped, dropped } = loaded;
+  const imageCount = Object.keys(file.assets).length;
+  return (
+    <Modal onClose={onClose} title="Open Board">
+      <p className="font-semibold">{file.metadata.name}</p>
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        {file.elements.length} element{file.elements.length === 1 ? '' : 's'}
+        {imageCount > 0 && `, ${imageCount} embedded image${imageCount === 1 ? '' : 's'}`}
+        {file.metadata.exportedBy && ` · saved by ${file.metadata.exportedBy}`}
+      </p>
+      {skipped > 0 && (
+        <p className="mt-2 text-sm text-amber-600 dark:text-amber-400">{skipped} element{skipped === 1 ? ' was' : 's were'} damaged and will be left out.</p>
+      )}
+      {dropped.length > 0 && (
+        <div className="mt-2 text-sm text-amber-600 dark:text-amber-400">
+          <p>These features have no equivalent here and will be left out or approximated:</p>
+          <ul className="mt-1 list-disc pl-5">
+            {dropped.map(feature => <li key={feature}>{feature}</li>)}
+          </ul>
+        </div>
+      )}
+      <p className="mt-4 text-gray-600 dark:text-gray-300">Replacing the board removes everything on it for everyone in the room.</p>
+      {importError && <p className="mt-2 text-sm text-red-500">{importError}</p>}
+      <div className="mt-6 flex justify-end space-x-4">
+        <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">Cancel</button>
+        <button onClick={() => handleImport('add')} disabled={!!importingMode} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-60">
+          {importingMode === 'add' && <Loader2 className="w-4 h-4 animate-spin" />}
+          Add to Board
+        </button>
+        <button onClick={() => handleImport('replace')} disabled={!!importingMode} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:opacity-60">
+          {importingMode === 'replace' && <Loader2 className="w-4 h-4 animate-spin" />}
+          Replace Board
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default OpenBoardDialog;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Lock, Unlock } from 'lucide-react';
+import { PageElement } from '../types';
+
+interface PageNavigatorProps {
+  pages: PageElement[];
+  currentIndex: number;
+  onNavigate: (index: number) => void;
+  onToggleLock: (page: PageElement) => void;
+}
+
+// Steps through imported document pages and locks or unlocks the one in view.
+const PageNavigator: React.FC<PageNavigatorProps> = ({ pages, currentIndex, onNavigate, onToggleLock }) => {
+  const page = pages[currentIndex];
+  return (
+    <div className="flex items-center gap-1 p-1.5 bg-white/30 dark:bg-slate-900/50 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl">
+      <button
+        onClick={() => onNavigate(currentIndex - 1)}
+        disabled={currentIndex === 0}
+        className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+        title="Previous Page (PageUp)"
+      >
+        <ChevronLeft className="w-5 h-5" />
+      </button>
+      <span className="px-2 text-sm font-semibold whitespace-nowrap max-w-[16rem] truncate" title={page.documentName}>
+        {page.documentName} · {currentIndex + 1} / {pages.length}
+      </span>
+      <button
+        onClick={() => onNavigate(currentIndex + 1)}
+        disabled={currentIndex === pages.length - 1}
+        className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+        title="Next Page (PageDown)"
+      >
+        <ChevronRight className="w-5 h-5" />
+      </button>
+      <div className="w-px h-5 bg-slate-300 dark:bg-slate-600 mx-0.5"></div>
+      <button
+        onClick={() => onToggleLock(page)}
+        className={`p-1.5 rounded-md ${page.locked ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+        title={page.locked ? 'Unlock Page' : 'Lock Page'}
+      >
+        {page.locked ? <Lock className="w-5 h-5" /> : <Unlock className="w-5 h-5" />}
+      </button>
+    </div>
+  );
+};
+
+export default PageNavigator;
@@ -0,0 +1,53 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface PreviewInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'onBlur'> {
+  value: string | number;
+  // Called on every step while the user drags a slider or through a color picker.
+  onPreview: (value: string) => void;
+  // Called once the value is settled.
+  onCommit: (value: string) => void;
+}
+
+// An input whose intermediate values are only previewed. The value is committed once, on the native
+// `change` event (the slider is released or the color picker closes), when the input loses focus or
+// when it goes away mid-drag.
+const PreviewInput: React.FC<PreviewInputProps> = ({ value, onPreview, onCommit, ...props }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Shown while dragging, since `value` only follows once the change is committed.
+  const [draft, setDraft] = useState<string | null>(null);
+  const pendingRef = useRef<string | null>(null);
+  const commit = () => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    setDraft(null);
+    if (pending !== null) onCommit(pending);
+  };
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
+
+  useEffect(() => {
+    const input = inputRef.current;
+    const handleChange = () => commitRef.current();
+    input?.addEventListener('change', handleChange);
+    return () => {
+      input?.removeEventListener('change', handleChange);
+      commitRef.current();
+    };
+  }, []);
+
+  return (
+    <input
+      {...props}
+      ref={inputRef}
+      value={draft ?? value}
+      onChange={(e) => {
+        pendingRef.current = e.target.value;
+        setDraft(e.target.value);
+        onPreview(e.target.value);
+      }}
+      onBlur={commit}
+    />
+  );
+};
+
+export default PreviewInput;
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { MousePointer2 } from 'lucide-react';
+import { Point, RemoteCursor } from '../types';
+import { PRESENCE_BROADCAST_INTERVAL_MS, PRESENCE_IDLE_MS, getCursorLabel, getPresenceColor } from '../lib/presence';
+
+interface RemoteCursorsProps {
+  cursors: RemoteCursor[];
+  pan: Point;
+  zoom: number;
+}
+
+// Peers' cursors in board space, each gliding to its latest position and labelled with who it is.
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ cursors, pan, zoom }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visible = cursors.filter(cursor => cursor.point && now - cursor.receivedAt < PRESENCE_IDLE_MS);
+  const glide = { duration: PRESENCE_BROADCAST_INTERVAL_MS / 1000, ease: 'linear' } as const;
+
+  return (
+    <div className="absolute top-0 left-0 pointer-events-none" style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, transformOrigin: '0 0' }}>
+      <AnimatePresence>
+        {visible.map(cursor => {
+          const color = getPresenceColor(cursor.userId);
+          return (
+            <motion.div
+              key={cursor.userId}
+              className="absolute top-0 left-0"
+              initial={{ x: cursor.point!.x, y: cursor.point!.y, opacity: 0 }}
+              animate={{ x: cursor.point!.x, y: cursor.point!.y, opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ x: glide, y: glide, opacity: { duration: 0.2 } }}
+            >
+              {/* Cursors keep their size whatever the zoom. */}
+              <div style={{ transform: `scale(${1 / zoom})`, transformOrigin: '0 0' }}>
+                <MousePointer2 className="w-5 h-5 drop-shadow" style={{ color: 'white', fill: color }} />
+                <div className="ml-4 -mt-1 px-1.5 py-0.5 rounded text-xs font-semibold text-white whitespace-nowrap shadow" style={{ backgroundColor: color }}>
+                  {getCursorLabel(cursor.name, cursor.tool)}
+                </div>
+              </div>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default RemoteCursors;
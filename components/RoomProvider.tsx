@@ -1,11 +1,26 @@
 // roomprovider.tsx
 import React, { createContext, useReducer, Dispatch, ReactNode, useEffect, useRef } from 'react';
-import { RoomState, RoomAction, Tool, BoardElement, User, Message, ParticipantStatus } from '../types';
+import { RoomState, RoomAction, Tool, BoardElement, User, Message, ParticipantStatus, LaserPoint, Point } from '../types';
 import { supabase } from '../lib/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { useNavigate } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
+import { rerouteConnectors, detachConnectors } from '../lib/connectors';
+import { reorderElements } from '../lib/ordering';
+import { appendLaserPoints } from '../lib/laser';
+import { replaceElements } from '../lib/eraser';
+import { DEFAULT_VIEWPORT, clampZoom } from '../lib/viewport';
+import { MAX_UNDO_STEPS, applyElementChanges, recordHistoryStep, takeHistoryStep } from '../lib/history';
+import { EMPTY_DOCUMENT, applyOperation, isCrdtOperation, mergeDocuments } from '../lib/crdt';
+import { applyBoardEvent, createBoardOperation, getBoardElements } from '../lib/boardDocument';
+import { SNAPSHOT_CHECK_INTERVAL_MS, compactBoard, loadBoard } from '../lib/snapshots';
+import { PRESENCE_BROADCAST_INTERVAL_MS } from '../lib/presence';
 
 const MAX_PARTICIPANTS = 5;
+// Laser points are batched so a fast pointer doesn't exceed the realtime rate limit.
+const LASER_BROADCAST_INTERVAL_MS = 50;
+// Stamps this tab's board operations, so two tabs of the same user never write with the same stamp.
+const REPLICA_ID = uuidv4();
 
 const getInitialState = (): RoomState => {
   const isDarkMode = typeof window !== 'undefined' ? localStorage.getItem('theme') !== 'light' : true;
@@ -14,13 +29,27 @@ const getInitialState = (): RoomState => {
     participants: [],
     isHost: false,
     messages: [],
+    board: EMPTY_DOCUMENT,
     elements: [],
-    selectedElementId: null,
-    history: [[]],
-    historyIndex: 0,
+    outbox: [],
+    selectedElementIds: [],
+    stylePreview: null,
+    undoStack: [],
+    redoStack: [],
     activeTool: Tool.Select,
     color: isDarkMode ? '#FFFFFF' : '#000000',
     strokeWidth: 5,
+    fillColor: 'transparent',
+    opacity: 1,
+    strokeStyle: 'solid',
+    shapeKind: 'diamond',
+    eraserMode: 'object',
+    viewport: DEFAULT_VIEWPORT,
+    gridMode: 'lines',
+    snapToGrid: false,
+    laserTrails: {},
+    cursors: {},
+    imageUploads: [],
     isBoardVisible: true,
     isLoading: true,
     isKicked: false,
@@ -28,6 +57,26 @@ const getInitialState = (): RoomState => {
   };
 };
 
+// Turns a local change into an operation on the board and queues it to be sent. Returns null when
+// nothing changed.
+const applyLocalChange = (state: RoomState, elements: BoardElement[], eventType: string): RoomState | null => {
+  const operation = createBoardOperation(state.board, state.elements, elements, REPLICA_ID);
+  if (!operation) return null;
+  const board = applyOperation(state.board, operation);
+  return { ...state, board, elements: getBoardElements(board), outbox: [...state.outbox, { eventType, operation }] };
+};
+
+// Applies a local change to the board and records how to undo it.
+const commitElements = (state: RoomState, elements: BoardElement[], eventType: string): RoomState => {
+  const changed = applyLocalChange(state, elements, eventType);
+  if (!changed) return state;
+  return {
+    ...changed,
+    undoStack: [...state.undoStack, recordHistoryStep(state.elements, changed.elements)].slice(-MAX_UNDO_STEPS),
+    redoStack: [],
+  };
+};
+
 const roomReducer = (state: RoomState, action: RoomAction): RoomState => {
   switch (action.type) {
     case 'SET_LOADING':
@@ -42,8 +91,10 @@ const roomReducer = (state: RoomState, action: RoomAction): RoomState => {
         return { ...state, participants: state.participants.map(p => p.id === action.payload.id ? { ...p, ...action.payload } : p) };
       }
       return { ...state, participants: [...state.participants, action.payload] };
-    case 'REMOVE_PARTICIPANT':
-      return { ...state, participants: state.participants.filter(p => p.id !== action.payload.userId) };
+    case 'REMOVE_PARTICIPANT': {
+      const { [action.payload.userId]: _, ...cursors } = state.cursors;
+      return { ...state, participants: state.participants.filter(p => p.id !== action.payload.userId), cursors };
+    }
     case 'SET_PARTICIPANTS': {
       const newParticipants = action.payload;
       let isNowHost = state.isHost;
@@ -62,62 +113,130 @@ const roomReducer = (state: RoomState, action: RoomAction): RoomState => {
       };
     }
     case 'SET_TOOL':
-      return { ...state, activeTool: action.payload, selectedElementId: null };
+      return { ...state, activeTool: action.payload, selectedElementIds: [] };
     case 'SET_COLOR':
       return { ...state, color: action.payload };
     case 'SET_STROKE_WIDTH':
       return { ...state, strokeWidth: action.payload };
+    case 'SET_FILL_COLOR':
+      return { ...state, fillColor: action.payload };
+    case 'SET_OPACITY':
+      return { ...state, opacity: action.payload };
+    case 'SET_STROKE_STYLE':
+      return { ...state, strokeStyle: action.payload };
+    case 'SET_SHAPE_KIND':
+      return { ...state, shapeKind: action.payload, activeTool: Tool.Shape, selectedElementIds: [] };
+    case 'SET_ERASER_MODE':
+      return { ...state, eraserMode: action.payload, activeTool: Tool.Eraser, selectedElementIds: [] };
+    case 'SET_VIEWPORT':
+      return { ...state, viewport: { ...action.payload, zoom: clampZoom(action.payload.zoom) } };
+    case 'SET_GRID_MODE':
+      return { ...state, gridMode: action.payload };
+    case 'SET_SNAP_TO_GRID':
+      return { ...state, snapToGrid: action.payload };
+    case 'PREVIEW_STYLE':
+      return { ...state, stylePreview: action.payload };
+    case 'LASER_POINTER': {
+      const { userId, points } = action.payload;
+      return { ...state, laserTrails: { ...state.laserTrails, [userId]: appendLaserPoints(state.laserTrails[userId] ?? [], points) } };
+    }
+    case 'REMOTE_CURSOR':
+      return { ...state, cursors: { ...state.cursors, [action.payload.userId]: action.payload } };
     case 'ADD_ELEMENT': {
-      const newElements = [...state.elements, action.payload.element];
-      const newHistory = [...state.history.slice(0, state.historyIndex + 1), newElements];
       return {
-        ...state,
-        elements: newElements,
-        history: newHistory,
-        historyIndex: newHistory.length - 1,
-        selectedElementId: action.payload.select ? action.payload.element.id : state.selectedElementId,
+        ...commitElements(state, [...state.elements, action.payload.element], action.type),
+        selectedElementIds: action.payload.select ? [action.payload.element.id] : state.selectedElementIds,
+        activeTool: action.payload.select ? Tool.Select : state.activeTool,
+      };
+    }
+    case 'SET_IMAGE_UPLOAD': {
+      const others = state.imageUploads.filter(upload => upload.id !== action.payload.id);
+      return { ...state, imageUploads: [...others, action.payload] };
+    }
+    case 'REMOVE_IMAGE_UPLOAD':
+      return { ...state, imageUploads: state.imageUploads.filter(upload => upload.id !== action.payload.id) };
+    case 'ADD_ELEMENTS': {
+      return {
+        ...commitElements(state, [...state.elements, ...action.payload.elements], action.type),
+        selectedElementIds: action.payload.select ? action.payload.elements.map(el => el.id) : state.selectedElementIds,
         activeTool: action.payload.select ? Tool.Select : state.activeTool,
       };
     }
     case 'UPDATE_ELEMENT': {
-      const newElements = state.elements.map(el => el.id === action.payload.id ? action.payload : el);
-      const newHistory = [...state.history.slice(0, state.historyIndex + 1), newElements];
-      return { ...state, elements: newElements, history: newHistory, historyIndex: newHistory.length - 1 };
+      return commitElements(state, rerouteConnectors(state.elements.map(el => el.id === action.payload.id ? action.payload : el), [action.payload.id]), action.type);
     }
     case 'DELETE_ELEMENT': {
-      const newElements = state.elements.filter(el => el.id !== action.payload.id);
-      const newHistory = [...state.history.slice(0, state.historyIndex + 1), newElements];
       return {
-        ...state,
-        elements: newElements,
-        history: newHistory,
-        historyIndex: newHistory.length - 1,
-        selectedElementId: state.selectedElementId === action.payload.id ? null : state.selectedElementId,
+        ...commitElements(state, detachConnectors(state.elements.filter(el => el.id !== action.payload.id), [action.payload.id]), action.type),
+        selectedElementIds: state.selectedElementIds.filter(id => id !== action.payload.id),
       };
     }
-    case 'SET_SELECTED_ELEMENT':
-      return { ...state, selectedElementId: action.payload };
-    case 'UNDO': {
-      if (state.historyIndex > 0) {
-        const newIndex = state.historyIndex - 1;
-        return { ...state, historyIndex: newIndex, elements: state.history[newIndex], selectedElementId: null };
-      }
-      return state;
+    case 'UPDATE_ELEMENTS': {
+      const updates = new Map<string, BoardElement>(action.payload.map(el => [el.id, el]));
+      return commitElements(state, rerouteConnectors(state.elements.map(el => updates.get(el.id) ?? el), [...updates.keys()]), action.type);
+    }
+    case 'DELETE_ELEMENTS': {
+      const { ids } = action.payload;
+      return {
+        ...commitElements(state, detachConnectors(state.elements.filter(el => !ids.includes(el.id)), ids), action.type),
+        selectedElementIds: state.selectedElementIds.filter(id => !ids.includes(id)),
+      };
+    }
+    case 'REORDER_ELEMENTS': {
+      return commitElements(state, reorderElements(state.elements, action.payload.ids, action.payload.direction), action.type);
+    }
+    case 'REPLACE_ELEMENTS': {
+      const { replacements } = action.payload;
+      const replacedIds = replacements.map(r => r.id);
+      return {
+        ...commitElements(state, replaceElements(state.elements, replacements), action.type),
+        selectedElementIds: state.selectedElementIds.filter(id => !replacedIds.includes(id)),
+      };
     }
+    case 'SET_SELECTED_ELEMENTS':
+      return { ...state, selectedElementIds: action.payload };
+    // Undo and redo only revert this user's own operations, sent like any other change.
+    case 'UNDO':
     case 'REDO': {
-      if (state.historyIndex < state.history.length - 1) {
-        const newIndex = state.historyIndex + 1;
-        return { ...state, historyIndex: newIndex, elements: state.history[newIndex], selectedElementId: null };
-      }
-      return state;
+      const isUndo = action.type === 'UNDO';
+      const taken = isUndo ? state.undoStack : state.redoStack;
+      const step = takeHistoryStep(state.elements, taken);
+      if (!step) return state;
+      const changed = applyLocalChange(state, applyElementChanges(state.elements, step.changes), action.type) ?? state;
+      const remaining = taken.slice(0, taken.length - step.consumed);
+      const opposite = [...(isUndo ? state.redoStack : state.undoStack), recordHistoryStep(state.elements, changed.elements)].slice(-MAX_UNDO_STEPS);
+      return {
+        ...changed,
+        undoStack: isUndo ? remaining : opposite,
+        redoStack: isUndo ? opposite : remaining,
+        selectedElementIds: [],
+      };
+    }
+    // Other participants' operations change the board but not this user's undo history.
+    case 'REMOTE_BOARD_EVENT': {
+      const board = applyBoardEvent(state.board, { event_type: action.payload.eventType, data: action.payload.data });
+      const elements = getBoardElements(board);
+      const ids = new Set(elements.map(el => el.id));
+      return { ...state, board, elements, selectedElementIds: state.selectedElementIds.filter(id => ids.has(id)) };
     }
     case 'CLEAR_CANVAS': {
-      const newHistory = [...state.history.slice(0, state.historyIndex + 1), []];
-      return { ...state, elements: [], history: newHistory, historyIndex: newHistory.length - 1, selectedElementId: null };
+      return { ...commitElements(state, [], action.type), selectedElementIds: [] };
     }
+    // A saved board replacing the room's contents; it can't be undone.
     case 'SET_INITIAL_ELEMENTS': {
-      return { ...state, elements: action.payload, history: [action.payload], historyIndex: 0 };
+      return { ...(applyLocalChange(state, action.payload, action.type) ?? state), undoStack: [], redoStack: [], selectedElementIds: [] };
     }
+    // A past version brought back from the history, as an ordinary change that can be undone.
+    case 'RESTORE_VERSION': {
+      return { ...commitElements(state, action.payload, action.type), selectedElementIds: [] };
+    }
+    // The loaded board is merged with whatever arrived while it was loading.
+    case 'SET_BOARD': {
+      const board = mergeDocuments(state.board, action.payload);
+      return { ...state, board, elements: getBoardElements(board), undoStack: [], redoStack: [], selectedElementIds: [] };
+    }
+    case 'BOARD_EVENTS_SENT':
+      return { ...state, outbox: state.outbox.slice(action.payload) };
     case 'SEND_MESSAGE':
        // Avoid adding duplicate messages that might come from the initial fetch + realtime
       if (state.messages.some(m => m.id === action.payload.id)) return state;
@@ -159,19 +278,13 @@ interface RoomProviderProps {
   roomId: string;
 }
 
-const applyEventToState = (elements: BoardElement[], event: { event_type: string, data: any }): BoardElement[] => {
-  switch (event.event_type) {
-    case 'ADD_ELEMENT': return [...elements, event.data.element];
-    case 'UPDATE_ELEMENT': return elements.map(el => el.id === event.data.id ? event.data : el);
-    case 'DELETE_ELEMENT': return elements.filter(el => el.id !== event.data.id);
-    case 'CLEAR_CANVAS': return [];
-    default: return elements;
-  }
-};
-
 export const RoomProvider: React.FC<RoomProviderProps> = ({ children, roomId }) => {
   const [state, dispatch] = useReducer(roomReducer, getInitialState());
   const channelRef = useRef<RealtimeChannel | null>(null);
+  const laserBufferRef = useRef<LaserPoint[]>([]);
+  const laserFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cursorPointRef = useRef<Point | null>(null);
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const navigate = useNavigate();
   
   const stateRef = useRef(state);
@@ -343,9 +456,23 @@ export const RoomProvider: React.FC<RoomProviderProps> = ({ children, roomId })
           }
         })
         .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'meetboard_whiteboard_events', filter: `room_id=eq.${roomId}` }, (payload) => {
-          if (!mounted || payload.new.user_id === stateRef.current.currentUser?.id || stateRef.current.isExiting) return;
+          // Operations are told apart by replica, so the same user's other tabs stay in sync.
+          const isOwnEvent = isCrdtOperation(payload.new.data) ? payload.new.data.stamp.replica === REPLICA_ID : payload.new.user_id === stateRef.current.currentUser?.id;
+          if (!mounted || isOwnEvent || stateRef.current.isExiting) return;
           console.log('[RoomProvider] Whiteboard event:', payload.new.event_type);
-          dispatch({ type: payload.new.event_type, payload: payload.new.data });
+          dispatch({ type: 'REMOTE_BOARD_EVENT', payload: { eventType: payload.new.event_type, data: payload.new.data } });
+        })
+        .on('broadcast', { event: 'LASER_POINTER' }, ({ payload }) => {
+          if (!mounted || stateRef.current.isExiting) return;
+          const points: LaserPoint[] = payload.points;
+          if (points.length === 0) return;
+          // Re-stamp with local time so fading doesn't depend on the sender's clock.
+          const offset = Date.now() - points[points.length - 1].time;
+          dispatch({ type: 'LASER_POINTER', payload: { userId: payload.userId, points: points.map(p => ({ ...p, time: p.time + offset })) } });
+        })
+        .on('broadcast', { event: 'PRESENCE' }, ({ payload }) => {
+          if (!mounted || stateRef.current.isExiting || payload.userId === stateRef.current.currentUser?.id) return;
+          dispatch({ type: 'REMOTE_CURSOR', payload: { ...payload, receivedAt: Date.now() } });
         })
         .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'meetboard_messages', filter: `room_id=eq.${roomId}` }, async (payload) => {
           if (!mounted || payload.new.user_id === stateRef.current.currentUser?.id || stateRef.current.isExiting) return;
@@ -409,18 +536,20 @@ export const RoomProvider: React.FC<RoomProviderProps> = ({ children, roomId })
           const [
             participantsRes,
             messagesRes,
-            eventsRes
+            board
           ] = await Promise.all([
             supabase.from('meetboard_participants').select('status, role, profiles(id, full_name, avatar_url)').eq('room_id', roomId),
             supabase.from('meetboard_messages').select('*, profiles(full_name, avatar_url)').eq('room_id', roomId).order('created_at'),
-            supabase.from('meetboard_whiteboard_events').select('*').eq('room_id', roomId).order('created_at')
+            loadBoard(roomId).catch(error => {
+              console.error('Error fetching whiteboard:', error);
+              return null;
+            })
           ]);
           
           if (!mounted) return;
           
           if (participantsRes.error) console.error('Error fetching participants:', participantsRes.error);
           if (messagesRes.error) console.error('Error fetching messages:', messagesRes.error);
-          if (eventsRes.error) console.error('Error fetching whiteboard events:', eventsRes.error);
           
           let users: User[] = [];
           if (participantsRes.data) {
@@ -473,8 +602,8 @@ export const RoomProvider: React.FC<RoomProviderProps> = ({ children, roomId })
             });
           }
 
-          if (eventsRes.data) {
-            dispatch({ type: 'SET_INITIAL_ELEMENTS', payload: eventsRes.data.reduce(applyEventToState, []) });
+          if (board) {
+            dispatch({ type: 'SET_BOARD', payload: board });
           }
           
           dispatch({ type: 'SET_LOADING', payload: false });
@@ -517,6 +646,52 @@ export const RoomProvider: React.FC<RoomProviderProps> = ({ children, roomId })
     return () => window.removeEventListener('themeChanged', handleThemeChange);
   }, []);
 
+  // This user's cursor, tool and selection go out together, at most once per interval. Sent over the
+  // realtime channel only; presence is never persisted.
+  const schedulePresenceBroadcast = () => {
+    if (presenceTimerRef.current) return;
+    presenceTimerRef.current = setTimeout(() => {
+      presenceTimerRef.current = null;
+      const { currentUser, activeTool, selectedElementIds, isExiting } = stateRef.current;
+      if (!currentUser || isExiting) return;
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'PRESENCE',
+        payload: { userId: currentUser.id, name: currentUser.name, point: cursorPointRef.current, tool: activeTool, selectedElementIds },
+      });
+    }, PRESENCE_BROADCAST_INTERVAL_MS);
+  };
+
+  useEffect(() => {
+    schedulePresenceBroadcast();
+  }, [state.activeTool, state.selectedElementIds]);
+
+  // The host now and then folds old board events into a snapshot, so joining doesn't replay the whole session.
+  useEffect(() => {
+    if (!state.isHost || state.isLoading) return;
+    const timer = setInterval(() => {
+      if (stateRef.current.isExiting) return;
+      compactBoard(roomId).catch(error => console.error('Error compacting whiteboard events:', error));
+    }, SNAPSHOT_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [roomId, state.isHost, state.isLoading]);
+
+  // Board operations are queued by the reducer, since only it knows the merged board they apply to.
+  // Saving them is also what delivers them to everyone else in the room.
+  useEffect(() => {
+    if (state.outbox.length === 0) return;
+    const events = state.outbox;
+    dispatch({ type: 'BOARD_EVENTS_SENT', payload: events.length });
+    if (!state.currentUser || state.isExiting) return;
+    const user_id = state.currentUser.id;
+    supabase
+      .from('meetboard_whiteboard_events')
+      .insert(events.map(({ eventType, operation }) => ({ room_id: roomId, user_id, event_type: eventType, data: operation })))
+      .then(({ error }) => {
+        if (error) console.error('Supabase dispatch error:', error);
+      });
+  }, [state.outbox]);
+
   const dispatchAndBroadcast: Dispatch<RoomAction> = async (action) => {
     dispatch(action);
     if (!stateRef.current.currentUser) return;
@@ -525,15 +700,21 @@ export const RoomProvider: React.FC<RoomProviderProps> = ({ children, roomId })
     const { id: user_id } = stateRef.current.currentUser;
     try {
       switch (action.type) {
-        case 'ADD_ELEMENT':
-        case 'UPDATE_ELEMENT':
-        case 'DELETE_ELEMENT':
-          await supabase.from('meetboard_whiteboard_events').insert({ room_id: roomId, user_id, event_type: action.type, data: action.payload });
+        case 'LASER_POINTER':
+          // Sent over the realtime channel only; laser trails are never persisted.
+          laserBufferRef.current.push(...action.payload.points);
+          if (!laserFlushTimerRef.current) {
+            laserFlushTimerRef.current = setTimeout(() => {
+              const points = laserBufferRef.current;
+              laserBufferRef.current = [];
+              laserFlushTimerRef.current = null;
+              channelRef.current?.send({ type: 'broadcast', event: 'LASER_POINTER', payload: { userId: user_id, points } });
+            }, LASER_BROADCAST_INTERVAL_MS);
+          }
           break;
-        case 'UNDO':
-        case 'REDO':
-        case 'CLEAR_CANVAS':
-          await supabase.from('meetboard_whiteboard_events').insert({ room_id: roomId, user_id, event_type: action.type, data: {} });
+        case 'MOVE_CURSOR':
+          cursorPointRef.current = action.payload;
+          schedulePresenceBroadcast();
           break;
         case 'SEND_MESSAGE':
           await supabase.from('meetboard_messages').insert({ room_id: roomId, user_id, content: action.payload.content });
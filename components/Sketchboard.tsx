@@ -1,61 +1,222 @@
-import React, { useRef, useEffect, useState, useCallback, useContext } from 'react';
-import { Tool, Point, StickyNoteElement, BoardElement, PathElement, RectangleElement, CircleElement, ImageElement, TextElement } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useContext, useMemo } from 'react';
+import { Tool, Point, ZOrderDirection, GridMode, Viewport, LaserPoint, StickyNoteElement, BoardElement, PathElement, RectangleElement, CircleElement, ShapeElement, ImageElement, PageElement, TextElement, LineElement, ArrowElement, ConnectorElement } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import StickyNote from './StickyNote';
 import { motion, AnimatePresence } from 'framer-motion';
 import Modal from './Modal';
 import { RoomContext } from './RoomProvider';
 import ContextMenu from './ContextMenu';
-import { ZoomIn, ZoomOut } from 'lucide-react';
+import Minimap from './Minimap';
+import ImageUploadPlaceholder from './ImageUploadPlaceholder';
+import PageNavigator from './PageNavigator';
+import ExportDialog, { BoardSaveFormat } from './ExportDialog';
+import OpenBoardDialog, { BoardImportMode } from './OpenBoardDialog';
+import TemplateGallery from './TemplateGallery';
+import HistoryDialog from './HistoryDialog';
+import RemoteCursors from './RemoteCursors';
+import { ZoomIn, ZoomOut, Maximize, ScanSearch, RotateCcw, Map as MapIcon, Grid3x3, Magnet, Download, FolderOpen, LayoutTemplate, History as HistoryIcon } from 'lucide-react';
+import { Bounds, doBoundsIntersect, getElementBounds, getBoundsCenter, getCommonBounds, getBoundsFromPoints, getRotatedBounds, getElementRotation, isBoundsInside, isPointInBounds, isPointNearPath, isPointNearPolyline, isPointNearSegmentElement, isLinear, rotatePoint, rotateElement, toElementSpace, translateElement, scaleElement } from '../lib/geometry';
+import { isBindable, routeConnector, rerouteConnectors } from '../lib/connectors';
+import { getDashPattern, hasFill } from '../lib/styles';
+import { getShapePath, getShapeLabelBounds } from '../lib/shapes';
+import { getPressureWidth, getStrokeOutline, simplifyStroke, smoothStroke } from '../lib/strokes';
+import { LASER_FADE_MS } from '../lib/laser';
+import { getPresenceColor } from '../lib/presence';
+import { erasePathSegment } from '../lib/eraser';
+import { DEFAULT_VIEWPORT, ViewportSize, centerOnPoint, fitBounds, getVisibleBounds, zoomAtPoint } from '../lib/viewport';
+import { GRID_SIZE, Guide, getAlignmentSnap, snapToGrid } from '../lib/snapping';
+import { Alignment, Distribution, alignElements, countUnits, distributeElements } from '../lib/align';
+import { BOARD_CLIPBOARD_MIME, DUPLICATE_OFFSET, cloneElements, cloneElementsAt, parseClipboardElements, serializeElements, textToHtml } from '../lib/clipboard';
+import { addImagesToBoard } from '../lib/images';
+import { importPdfToBoard, isPdfFile } from '../lib/pdf';
+import { EXPORT_PADDING, ExportOptions, ExportScope, downloadBlob, exportElements } from '../lib/export';
+import { BOARD_FILE_EXTENSION, BoardFileError, LoadedBoardFile, createBoardFile, uploadEmbeddedImages } from '../lib/boardFile';
+import { EXCALIDRAW_FILE_EXTENSION, toExcalidraw } from '../lib/excalidraw';
+import { OPENABLE_FILE_TYPES, readBoardDocument } from '../lib/interop';
+import { BoardTemplate } from '../lib/templates';
+import { getSelectableGroupId, getGroupMemberIds, getSelectionForElement, groupElements, ungroupElements } from '../lib/groups';
 
-type Action = 'none' | 'drawing' | 'panning' | 'moving' | 'resizing';
+type Action = 'none' | 'drawing' | 'panning' | 'pinching' | 'moving' | 'resizing' | 'rotating' | 'dragging-endpoint' | 'selecting';
 type ResizeHandle = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight' | 'top' | 'bottom' | 'left' | 'right';
+type EndpointHandle = 'start' | 'end';
 
 // --- Helper Functions ---
-const getElementBounds = (element: BoardElement): { x: number; y: number; width: number; height: number } => {
-    if (element.type === 'note' || element.type === 'image' || element.type === 'rectangle' || element.type === 'circle' || element.type === 'text') {
-        return { x: element.x, y: element.y, width: element.width, height: element.height };
+// The box the selection handles are drawn on: a lone element's own (possibly rotated) bounds,
+// or the axis-aligned box around a multi-selection.
+interface SelectionFrame {
+    bounds: Bounds;
+    rotation: number;
+}
+
+const ROTATION_HANDLE_OFFSET = 24;
+const ROTATION_SNAP = Math.PI / 12;
+
+const hasResizeHandles = (selection: BoardElement[]): boolean => {
+    if (selection.length === 0) return false;
+    return selection.length > 1 || !getEndpoints(selection[0]);
+};
+
+const getSelectionFrame = (selection: BoardElement[]): SelectionFrame => {
+    if (selection.length === 1) {
+        return { bounds: getElementBounds(selection[0]), rotation: getElementRotation(selection[0]) };
     }
-    if (element.type === 'path') {
-        if (element.points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
-        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-        element.points.forEach(p => {
-            minX = Math.min(minX, p.x);
-            minY = Math.min(minY, p.y);
-            maxX = Math.max(maxX, p.x);
-            maxY = Math.max(maxY, p.y);
-        });
-        return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    return { bounds: getCommonBounds(selection)!, rotation: 0 };
+};
+
+const toFrameSpace = (point: Point, frame: SelectionFrame): Point => {
+    return rotatePoint(point, getBoundsCenter(frame.bounds), -frame.rotation);
+};
+
+const withRotation = (ctx: CanvasRenderingContext2D, center: Point, rotation: number, draw: () => void) => {
+    if (rotation === 0) {
+        draw();
+        return;
     }
-    return { x: 0, y: 0, width: 0, height: 0 };
+    ctx.save();
+    ctx.translate(center.x, center.y);
+    ctx.rotate(rotation);
+    ctx.translate(-center.x, -center.y);
+    draw();
+    ctx.restore();
 };
 
-const isPointInBounds = (point: Point, bounds: { x: number; y: number; width: number; height: number }): boolean => {
-    return (
-        point.x >= bounds.x &&
-        point.x <= bounds.x + bounds.width &&
-        point.y >= bounds.y &&
-        point.y <= bounds.y + bounds.height
-    );
+const getEndpoints = (element: BoardElement): { start: Point; end: Point } | null => {
+    if (isLinear(element)) return { start: element.start, end: element.end };
+    if (element.type === 'connector') return { start: element.start.point, end: element.end.point };
+    return null;
 };
 
-const distanceToSegment = (p: Point, v: Point, w: Point): number => {
-    const l2 = (v.x - w.x) ** 2 + (v.y - w.y) ** 2;
-    if (l2 === 0) return Math.sqrt((p.x - v.x) ** 2 + (p.y - v.y) ** 2);
-    let t = ((p.x - v.x) * (w.x - v.x) + (p.y - v.y) * (w.y - v.y)) / l2;
-    t = Math.max(0, Math.min(1, t));
-    const projection = { x: v.x + t * (w.x - v.x), y: v.y + t * (w.y - v.y) };
-    return Math.sqrt((p.x - projection.x) ** 2 + (p.y - projection.y) ** 2);
+// Keeps a line at multiples of 45 degrees while Shift is held.
+const snapEndpointAngle = (origin: Point, point: Point): Point => {
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+    return { x: origin.x + Math.cos(angle) * length, y: origin.y + Math.sin(angle) * length };
 };
 
-const isPointNearPath = (point: Point, path: PathElement): boolean => {
-    const threshold = path.strokeWidth / 2 + 5;
-    for (let i = 0; i < path.points.length - 1; i++) {
-        if (distanceToSegment(point, path.points[i], path.points[i + 1]) < threshold) {
-            return true;
-        }
+const drawArrowhead = (ctx: CanvasRenderingContext2D, from: Point, to: Point, strokeWidth: number, filled: boolean) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const size = Math.max(10, strokeWidth * 3);
+    const spread = Math.PI / 7;
+    ctx.setLineDash([]);
+    const left = { x: to.x - size * Math.cos(angle - spread), y: to.y - size * Math.sin(angle - spread) };
+    const right = { x: to.x - size * Math.cos(angle + spread), y: to.y - size * Math.sin(angle + spread) };
+    ctx.beginPath();
+    ctx.moveTo(left.x, left.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.lineTo(right.x, right.y);
+    if (filled) {
+        ctx.closePath();
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.fill();
     }
-    return false;
+    ctx.stroke();
+};
+
+// Screen pixels a committed pen stroke may deviate from what was drawn.
+const STROKE_SIMPLIFY_TOLERANCE = 1;
+
+// Only pens report meaningful pressure; mice and most touch screens send a constant.
+const getPointerPressure = (e: PointerEvent): number | undefined => {
+    return e.pointerType === 'pen' ? e.pressure : undefined;
+};
+
+// Screen-space radius of the stroke-splitting eraser.
+const ERASER_RADIUS = 8;
+
+// Screen pixels within which a moving selection snaps to another element's edge or center.
+const GUIDE_SNAP_THRESHOLD = 6;
+const GUIDE_COLOR = '#ec4899';
+const GRID_MODES: GridMode[] = ['lines', 'dots', 'none'];
+
+const HIGHLIGHTER_OPACITY = 0.35;
+const HIGHLIGHTER_WIDTH_SCALE = 4;
+const LASER_COLOR = '#ef4444';
+
+const isHighlighterStroke = (element: BoardElement) => element.type === 'path' && !!element.isHighlighter;
+// Locked pages ignore selection, dragging and the eraser so they can be drawn on freely.
+const isLocked = (element: BoardElement) => element.type === 'page' && element.locked;
+const PAGE_BORDER_COLOR = '#cbd5e1';
+
+const LABEL_FONT_SIZE = 16;
+const LABEL_FONT = `${LABEL_FONT_SIZE}px Poppins`;
+
+// Breaks a label into lines that fit `maxWidth`, keeping explicit line breaks.
+const wrapLabel = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+};
+
+const drawShapeLabel = (ctx: CanvasRenderingContext2D, element: ShapeElement) => {
+    if (!element.label) return;
+    const bounds = getShapeLabelBounds(element);
+    ctx.font = LABEL_FONT;
+    ctx.fillStyle = element.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lineHeight = LABEL_FONT_SIZE * 1.25;
+    const lines = wrapLabel(ctx, element.label, bounds.width);
+    const top = bounds.y + bounds.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((line, i) => ctx.fillText(line, bounds.x + bounds.width / 2, top + i * lineHeight));
+};
+
+// In-place editor for a shape's label, laid over the shape and rotated with it.
+const ShapeLabelEditor: React.FC<{
+  element: ShapeElement;
+  onCommit: (label: string) => void;
+}> = ({ element, onCommit }) => {
+  const [label, setLabel] = useState(element.label);
+  const bounds = getShapeLabelBounds(element);
+
+  return (
+    <div
+      className="absolute flex"
+      style={{
+        left: element.x,
+        top: element.y,
+        width: element.width,
+        height: element.height,
+        transform: `rotate(${((element.rotation ?? 0) * 180) / Math.PI}deg)`,
+      }}
+    >
+      <textarea
+        autoFocus
+        value={label}
+        onChange={e => setLabel(e.target.value)}
+        onBlur={() => onCommit(label)}
+        onKeyDown={e => {
+          if (e.key === 'Escape' || (e.key === 'Enter' && !e.shiftKey)) {
+            e.preventDefault();
+            e.currentTarget.blur();
+          }
+        }}
+        className="absolute resize-none bg-transparent text-center outline-none overflow-hidden"
+        style={{
+          left: bounds.x - element.x,
+          top: bounds.y - element.y,
+          width: bounds.width,
+          height: bounds.height,
+          paddingTop: Math.max(0, bounds.height / 2 - LABEL_FONT_SIZE),
+          color: element.color,
+          font: LABEL_FONT,
+        }}
+      />
+    </div>
+  );
 };
 
 const TextElementComponent: React.FC<{
@@ -114,6 +275,7 @@ const TextElementComponent: React.FC<{
         height: 'auto',
         x: data.x,
         y: data.y,
+        rotate: ((data.rotation ?? 0) * 180) / Math.PI,
         position: 'absolute',
         top: 0,
         left: 0,
@@ -135,29 +297,61 @@ const TextElementComponent: React.FC<{
 };
 
 
-const Sketchboard: React.FC = () => {
+interface SketchboardProps {
+    roomId: string;
+}
+
+const Sketchboard: React.FC<SketchboardProps> = ({ roomId }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const { state, dispatch } = useContext(RoomContext);
-    const { activeTool, color, strokeWidth, elements, selectedElementId } = state;
+    const { activeTool, color, strokeWidth, fillColor, opacity, strokeStyle, shapeKind, elements, selectedElementIds, laserTrails, cursors, currentUser, eraserMode, viewport, imageUploads, gridMode, snapToGrid: isSnapToGridOn, stylePreview } = state;
+    const { pan, zoom } = viewport;
 
     const [action, setAction] = useState<Action>('none');
     const [startPoint, setStartPoint] = useState<Point>({ x: 0, y: 0 });
     const [currentElement, setCurrentElement] = useState<BoardElement | null>(null);
-    const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
-    const [zoom, setZoom] = useState(1);
+    // Working copies of the selection while it is being moved or resized.
+    const [draftElements, setDraftElements] = useState<BoardElement[] | null>(null);
+    const [marquee, setMarquee] = useState<Bounds | null>(null);
+    const [guides, setGuides] = useState<Guide[]>([]);
+    // Where the pointer last hovered over the board, so pastes land under it.
+    const lastPointerRef = useRef<Point | null>(null);
+    // The group the user has drilled into with a double-click, if any.
+    const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+    const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
+    // Pieces left of each pen stroke cut during the current eraser drag, keyed by the original id.
+    // Kept local until the drag ends so peers receive the whole cut as one change.
+    const [erasedPaths, setErasedPaths] = useState<Record<string, PathElement[]> | null>(null);
+    const erasedPathsRef = useRef<Record<string, PathElement[]> | null>(null);
+    const transformStartRef = useRef<{ elements: BoardElement[]; frame: SelectionFrame } | null>(null);
+    const didTransformRef = useRef(false);
+    const additiveSelectRef = useRef(false);
     const [panStart, setPanStart] = useState<Point>({ x: 0, y: 0 });
+    const [canvasSize, setCanvasSize] = useState<ViewportSize>({ width: 0, height: 0 });
+    const [showMinimap, setShowMinimap] = useState(true);
+    // Screen positions of the touch points on the canvas, for two-finger pinch zoom.
+    const touchPointsRef = useRef(new Map<number, Point>());
+    const pinchStartRef = useRef<{ distance: number; viewport: Viewport; midpoint: Point } | null>(null);
     const lastPointRef = useRef<Point | null>(null);
     const [resizeHandle, setResizeHandle] = useState<ResizeHandle | null>(null);
+    const [endpointHandle, setEndpointHandle] = useState<EndpointHandle | null>(null);
     const [cursor, setCursor] = useState('auto');
+    // Ticks while any laser trail is still fading so the canvas keeps repainting.
+    const [laserClock, setLaserClock] = useState(0);
 
     const [showClearConfirm, setShowClearConfirm] = useState(false);
+    const [showExportDialog, setShowExportDialog] = useState(false);
+    const [openedBoard, setOpenedBoard] = useState<{ loaded: LoadedBoardFile | null; error: string | null } | null>(null);
+    const boardFileInputRef = useRef<HTMLInputElement>(null);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
     const [contextMenu, setContextMenu] = useState<{ visible: boolean; x: number; y: number; elementId: string | null }>({ visible: false, x: 0, y: 0, elementId: null });
     
     const [loadedImages, setLoadedImages] = useState<Map<string, HTMLImageElement>>(new Map());
 
     // Preload images
     useEffect(() => {
-        const imageElements = elements.filter(el => el.type === 'image') as ImageElement[];
+        const imageElements = elements.filter((el): el is ImageElement | PageElement => el.type === 'image' || el.type === 'page');
         imageElements.forEach(el => {
             if (el.src && !loadedImages.has(el.src)) {
                 const img = new Image();
@@ -182,9 +376,47 @@ const Sketchboard: React.FC = () => {
             const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
             const isCtrlCmd = isMac ? e.metaKey : e.ctrlKey;
 
-            if ((e.key === 'Delete' || e.key === 'Backspace') && selectedElementId) {
+            if ((e.key === 'Delete' || e.key === 'Backspace') && selectedElementIds.length > 0) {
+                e.preventDefault();
+                dispatch({ type: 'DELETE_ELEMENTS', payload: { ids: selectedElementIds } });
+            } else if (e.shiftKey && !isCtrlCmd && ['Digit0', 'Digit1', 'Digit2'].includes(e.code)) {
+                e.preventDefault();
+                if (e.code === 'Digit0') handleResetZoom();
+                if (e.code === 'Digit1') handleZoomToFit();
+                if (e.code === 'Digit2') handleZoomToSelection();
+            } else if ((e.key === 'PageDown' || e.key === 'PageUp') && !isCtrlCmd) {
+                const index = getCurrentPageIndex();
+                if (index === -1) return;
                 e.preventDefault();
-                dispatch({ type: 'DELETE_ELEMENT', payload: { id: selectedElementId } });
+                handleNavigatePage(e.key === 'PageDown' ? index + 1 : index - 1);
+            } else if (e.key === 'Escape' && selectedElementIds.length > 0) {
+                dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: [] });
+            } else if (isCtrlCmd && e.key.toLowerCase() === 'a') {
+                e.preventDefault();
+                dispatch({ type: 'SET_TOOL', payload: Tool.Select });
+                dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: elements.filter(el => !isLocked(el)).map(el => el.id) });
+            } else if (isCtrlCmd && e.key.toLowerCase() === 'd') {
+                // Copy and paste go through the clipboard events below; duplicating skips the clipboard.
+                e.preventDefault();
+                const selection = elements.filter(el => selectedElementIds.includes(el.id));
+                if (selection.length > 0) {
+                    dispatch({ type: 'ADD_ELEMENTS', payload: { elements: cloneElements(selection, DUPLICATE_OFFSET, DUPLICATE_OFFSET), select: true } });
+                }
+            } else if (isCtrlCmd && e.key.toLowerCase() === 'g') {
+                e.preventDefault();
+                const selection = elements.filter(el => selectedElementIds.includes(el.id));
+                if (e.shiftKey) {
+                    const ungrouped = ungroupElements(selection, editingGroupId);
+                    if (ungrouped.length > 0) dispatch({ type: 'UPDATE_ELEMENTS', payload: ungrouped });
+                } else if (selection.length > 1) {
+                    dispatch({ type: 'UPDATE_ELEMENTS', payload: groupElements(selection, editingGroupId) });
+                }
+            } else if (isCtrlCmd && (e.code === 'BracketRight' || e.code === 'BracketLeft') && selectedElementIds.length > 0) {
+                e.preventDefault();
+                const direction: ZOrderDirection = e.code === 'BracketRight'
+                    ? (e.shiftKey ? 'front' : 'forward')
+                    : (e.shiftKey ? 'back' : 'backward');
+                dispatch({ type: 'REORDER_ELEMENTS', payload: { ids: selectedElementIds, direction } });
             } else if (isCtrlCmd && e.key.toLowerCase() === 'z') {
                 e.preventDefault();
                 if (e.shiftKey) {
@@ -201,11 +433,17 @@ const Sketchboard: React.FC = () => {
                         case 'v': dispatch({ type: 'SET_TOOL', payload: Tool.Select }); break;
                         case 'h': dispatch({ type: 'SET_TOOL', payload: Tool.Hand }); break;
                         case 'p': dispatch({ type: 'SET_TOOL', payload: Tool.Pen }); break;
+                        case 'i': dispatch({ type: 'SET_TOOL', payload: Tool.Highlighter }); break;
+                        case 'q': dispatch({ type: 'SET_TOOL', payload: Tool.Laser }); break;
                         case 'e': dispatch({ type: 'SET_TOOL', payload: Tool.Eraser }); break;
                         case 's': dispatch({ type: 'SET_TOOL', payload: Tool.StickyNote }); break;
                         case 'r': dispatch({ type: 'SET_TOOL', payload: Tool.Rectangle }); break;
                         case 'c': dispatch({ type: 'SET_TOOL', payload: Tool.Circle }); break;
+                        case 'd': dispatch({ type: 'SET_TOOL', payload: Tool.Shape }); break;
                         case 't': dispatch({ type: 'SET_TOOL', payload: Tool.Text }); break;
+                        case 'l': dispatch({ type: 'SET_TOOL', payload: Tool.Line }); break;
+                        case 'a': dispatch({ type: 'SET_TOOL', payload: Tool.Arrow }); break;
+                        case 'k': dispatch({ type: 'SET_TOOL', payload: Tool.Connector }); break;
                     }
                 }
             }
@@ -215,7 +453,69 @@ const Sketchboard: React.FC = () => {
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
         };
-    }, [dispatch, selectedElementId]);
+    }, [dispatch, selectedElementIds, elements, editingGroupId, canvasSize, viewport]);
+
+    // Clipboard. Copied elements carry no room id, so they paste into any board.
+    useEffect(() => {
+        const isEditingText = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement;
+            return ['INPUT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable;
+        };
+
+        const getPastePoint = (): Point => {
+            if (lastPointerRef.current) return lastPointerRef.current;
+            const visible = getVisibleBounds(viewport, canvasSize);
+            return getBoundsCenter(visible);
+        };
+
+        const handleCopy = (e: ClipboardEvent) => {
+            if (isEditingText(e) || selectedElementIds.length === 0 || !e.clipboardData) return;
+            e.preventDefault();
+            const data = serializeElements(elements.filter(el => selectedElementIds.includes(el.id)));
+            e.clipboardData.setData(BOARD_CLIPBOARD_MIME, data);
+            e.clipboardData.setData('text/plain', data);
+        };
+
+        const handlePaste = (e: ClipboardEvent) => {
+            if (isEditingText(e) || !e.clipboardData) return;
+            const point = getPastePoint();
+            const copied = parseClipboardElements(e.clipboardData.getData(BOARD_CLIPBOARD_MIME) || e.clipboardData.getData('text/plain'));
+            if (copied) {
+                e.preventDefault();
+                dispatch({ type: 'ADD_ELEMENTS', payload: { elements: cloneElementsAt(copied, point), select: true } });
+                return;
+            }
+            // Screenshots arrive as file items with no name, so read items rather than `files`.
+            const images = Array.from(e.clipboardData.items)
+                .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+                .map(item => item.getAsFile())
+                .filter((file): file is File => !!file);
+            if (images.length > 0) {
+                e.preventDefault();
+                addImagesToBoard(images, point, dispatch);
+                return;
+            }
+            const text = e.clipboardData.getData('text/plain');
+            if (text.trim()) {
+                e.preventDefault();
+                const lines = text.split('\n');
+                const fontSize = 16;
+                const width = Math.min(400, Math.max(...lines.map(line => line.length)) * fontSize * 0.6 + 8);
+                const newText: TextElement = {
+                    id: uuidv4(), type: 'text', x: point.x, y: point.y, width, height: lines.length * fontSize * 1.3,
+                    text: textToHtml(text), color, fontSize, fontFamily: 'Poppins', textAlign: 'left'
+                };
+                dispatch({ type: 'ADD_ELEMENT', payload: { element: newText, select: true } });
+            }
+        };
+
+        window.addEventListener('copy', handleCopy);
+        window.addEventListener('paste', handlePaste);
+        return () => {
+            window.removeEventListener('copy', handleCopy);
+            window.removeEventListener('paste', handlePaste);
+        };
+    }, [dispatch, selectedElementIds, elements, viewport, canvasSize, color]);
 
     const getCanvasPoint = (e: React.MouseEvent | React.TouchEvent | MouseEvent): Point => {
         const canvas = canvasRef.current!;
@@ -229,15 +529,27 @@ const Sketchboard: React.FC = () => {
     };
     
     const drawElement = (ctx: CanvasRenderingContext2D, element: BoardElement) => {
-        if (element.type === 'image') {
-            const img = loadedImages.get((element as ImageElement).src);
+        const center = getBoundsCenter(getElementBounds(element));
+        ctx.save();
+        withRotation(ctx, center, getElementRotation(element), () => drawElementShape(ctx, element));
+        ctx.restore();
+    };
+
+    const drawElementShape = (ctx: CanvasRenderingContext2D, element: BoardElement) => {
+        if (element.type === 'image' || element.type === 'page') {
+            const img = loadedImages.get(element.src);
             if (img) {
                 ctx.drawImage(img, element.x, element.y, element.width, element.height);
             }
+            if (element.type === 'page') {
+                ctx.strokeStyle = PAGE_BORDER_COLOR;
+                ctx.lineWidth = 1 / zoom;
+                ctx.strokeRect(element.x, element.y, element.width, element.height);
+            }
             return;
         }
 
-        if (element.type !== 'path' && element.type !== 'rectangle' && element.type !== 'circle') {
+        if (element.type === 'note' || element.type === 'text') {
             return;
         }
 
@@ -245,22 +557,88 @@ const Sketchboard: React.FC = () => {
         ctx.lineWidth = element.strokeWidth;
         ctx.lineCap = 'round';
         ctx.lineJoin = 'round';
+        ctx.globalAlpha = element.opacity ?? 1;
+        ctx.setLineDash(getDashPattern(element.strokeStyle, element.strokeWidth));
 
         switch(element.type){
             case 'path':
                 drawPath(ctx, element);
                 break;
             case 'rectangle':
+                if (hasFill(element)) {
+                    ctx.fillStyle = element.fillColor!;
+                    ctx.fillRect(element.x, element.y, element.width, element.height);
+                }
                 ctx.strokeRect(element.x, element.y, element.width, element.height);
                 break;
             case 'circle':
                  ctx.beginPath();
                  ctx.ellipse(element.x + element.width/2, element.y + element.height / 2, Math.abs(element.width/2), Math.abs(element.height/2), 0, 0, 2 * Math.PI);
+                 if (hasFill(element)) {
+                     ctx.fillStyle = element.fillColor!;
+                     ctx.fill();
+                 }
                  ctx.stroke();
                  break;
+            case 'shape': {
+                const outline = new Path2D(getShapePath(element));
+                if (hasFill(element)) {
+                    ctx.fillStyle = element.fillColor!;
+                    ctx.fill(outline);
+                }
+                ctx.stroke(outline);
+                if (element.id !== editingLabelId) {
+                    ctx.globalAlpha = 1;
+                    drawShapeLabel(ctx, element);
+                }
+                break;
+            }
+            case 'line':
+            case 'arrow':
+                ctx.beginPath();
+                ctx.moveTo(element.start.x, element.start.y);
+                ctx.lineTo(element.end.x, element.end.y);
+                ctx.stroke();
+                if (element.type === 'arrow' && element.arrowhead !== 'none') {
+                    const filled = element.arrowhead !== 'open';
+                    drawArrowhead(ctx, element.start, element.end, element.strokeWidth, filled);
+                    if (element.arrowhead === 'both') {
+                        drawArrowhead(ctx, element.end, element.start, element.strokeWidth, filled);
+                    }
+                }
+                break;
+            case 'connector': {
+                const { points } = element;
+                if (points.length < 2) break;
+                ctx.beginPath();
+                ctx.moveTo(points[0].x, points[0].y);
+                points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+                ctx.stroke();
+                if (element.arrowhead !== 'none') {
+                    const filled = element.arrowhead !== 'open';
+                    drawArrowhead(ctx, points[points.length - 2], points[points.length - 1], element.strokeWidth, filled);
+                    if (element.arrowhead === 'both') {
+                        drawArrowhead(ctx, points[1], points[0], element.strokeWidth, filled);
+                    }
+                }
+                break;
+            }
         }
     }
 
+    // Keyed on peers' selections alone, so a peer moving their cursor doesn't redraw the board.
+    const peerSelectionsKey = JSON.stringify(Object.values(cursors).map(cursor => [cursor.userId, cursor.selectedElementIds]));
+    // The board as shown, with a style still being picked in the toolbar or context menu applied to the selection.
+    const shownElements = useMemo(() => {
+        if (!stylePreview) return elements;
+        const previews = new Map<string, BoardElement>(stylePreview.map(el => [el.id, el]));
+        return elements.map(el => previews.get(el.id) ?? el);
+    }, [elements, stylePreview]);
+
+    const peerSelections = useMemo(() => Object.values(cursors)
+        .filter(cursor => cursor.selectedElementIds.length > 0)
+        .map(cursor => ({ color: getPresenceColor(cursor.userId), ids: cursor.selectedElementIds })), [peerSelectionsKey]);
+
     const redrawCanvas = useCallback(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
@@ -271,29 +649,98 @@ const Sketchboard: React.FC = () => {
         ctx.save();
         ctx.translate(pan.x, pan.y);
         ctx.scale(zoom, zoom);
+        drawGrid(ctx, canvas);
         
-        const visibleElements = [...elements, currentElement].filter((el): el is BoardElement => el !== null);
-        const selectedElement = visibleElements.find(el => el.id === selectedElementId);
+        let visibleElements = erasedPaths ? shownElements.flatMap(el => erasedPaths[el.id] ?? [el]) : shownElements;
+        if (draftElements) {
+            const drafts = new Map<string, BoardElement>(draftElements.map(el => [el.id, el]));
+            visibleElements = rerouteConnectors(shownElements.map(el => drafts.get(el.id) ?? el), [...drafts.keys()]);
+        }
+        if (currentElement) {
+            const isExisting = elements.some(el => el.id === currentElement.id);
+            visibleElements = isExisting
+                ? rerouteConnectors(visibleElements.map(el => el.id === currentElement.id ? currentElement : el), [currentElement.id])
+                : [...visibleElements, currentElement];
+        }
+        const selectedElements = visibleElements.filter(el => selectedElementIds.includes(el.id));
         
-        visibleElements.forEach(element => {
-            if (element.type !== 'note' && element.type !== 'text') {
-                drawElement(ctx, element);
+        const canvasElements = visibleElements.filter(el => el.type !== 'note' && el.type !== 'text');
+        // Pages are backgrounds, and highlighter ink sits under everything else drawn on top of them.
+        canvasElements.filter(el => el.type === 'page').forEach(element => drawElement(ctx, element));
+        canvasElements.filter(isHighlighterStroke).forEach(element => drawElement(ctx, element));
+        canvasElements.filter(el => el.type !== 'page' && !isHighlighterStroke(el)).forEach(element => drawElement(ctx, element));
+
+ 
+        if (activeTool === Tool.Select && selectedElements.length > 0) {
+            const selectedEndpoints = selectedElements.length === 1 ? getEndpoints(selectedElements[0]) : null;
+            if (selectedEndpoints) {
+                drawEndpointHandles(ctx, selectedEndpoints);
+            } else if (hasResizeHandles(selectedElements)) {
+                ctx.strokeStyle = '#3B82F6';
+                ctx.lineWidth = 1 / zoom;
+                ctx.setLineDash([4 / zoom, 2 / zoom]);
+                if (selectedElements.length > 1) {
+                    selectedElements.forEach(el => {
+                        const b = getElementBounds(el);
+                        withRotation(ctx, getBoundsCenter(b), getElementRotation(el), () => ctx.strokeRect(b.x, b.y, b.width, b.height));
+                    });
+                }
+                const frame = getSelectionFrame(selectedElements);
+                const { bounds } = frame;
+                withRotation(ctx, getBoundsCenter(bounds), frame.rotation, () => {
+                    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+                    ctx.setLineDash([]);
+                    drawResizeHandles(ctx, bounds);
+                    drawRotationHandle(ctx, bounds);
+                });
+                ctx.setLineDash([]);
             }
-        });
+        }
+
+        drawPeerSelections(ctx, visibleElements);
 
-        if (selectedElement && activeTool === Tool.Select && selectedElement.type !== 'note' && selectedElement.type !== 'text') {
-            const bounds = getElementBounds(selectedElement);
+        if (editingGroupId) {
+            const groupBounds = getCommonBounds(visibleElements.filter(el => el.groupIds?.includes(editingGroupId)));
+            if (groupBounds) {
+                const padding = 6 / zoom;
+                ctx.strokeStyle = 'rgba(59, 130, 246, 0.5)';
+                ctx.lineWidth = 1 / zoom;
+                ctx.setLineDash([2 / zoom, 4 / zoom]);
+                ctx.strokeRect(groupBounds.x - padding, groupBounds.y - padding, groupBounds.width + padding * 2, groupBounds.height + padding * 2);
+                ctx.setLineDash([]);
+            }
+        }
+
+        if (marquee) {
+            ctx.fillStyle = 'rgba(59, 130, 246, 0.08)';
             ctx.strokeStyle = '#3B82F6';
             ctx.lineWidth = 1 / zoom;
-            ctx.setLineDash([4 / zoom, 2 / zoom]);
-            ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
-            ctx.setLineDash([]);
-            
-            drawResizeHandles(ctx, bounds);
+            ctx.fillRect(marquee.x, marquee.y, marquee.width, marquee.height);
+            ctx.strokeRect(marquee.x, marquee.y, marquee.width, marquee.height);
+        }
+
+        if (guides.length > 0) {
+            ctx.strokeStyle = GUIDE_COLOR;
+            ctx.lineWidth = 1 / zoom;
+            guides.forEach(guide => {
+                ctx.beginPath();
+                ctx.moveTo(guide.from.x, guide.from.y);
+                ctx.lineTo(guide.to.x, guide.to.y);
+                ctx.stroke();
+            });
         }
+
+        drawLaserTrails(ctx);
         
         ctx.restore();
-    }, [elements, pan, zoom, currentElement, selectedElementId, activeTool, loadedImages]);
+    }, [elements, shownElements, pan, zoom, currentElement, draftElements, marquee, selectedElementIds, editingGroupId, editingLabelId, activeTool, loadedImages, laserTrails, laserClock, erasedPaths, guides, gridMode, peerSelections]);
+
+    useEffect(() => {
+        const latest = Math.max(0, ...Object.values(laserTrails).map(trail => trail[trail.length - 1]?.time ?? 0));
+        if (Date.now() - latest > LASER_FADE_MS) return;
+        const frame = requestAnimationFrame(() => setLaserClock(Date.now()));
+        return () => cancelAnimationFrame(frame);
+    }, [laserTrails, laserClock]);
     
     const drawResizeHandles = (ctx: CanvasRenderingContext2D, bounds: { x: number; y: number; width: number; height: number }) => {
         const handleSize = 8 / zoom;
@@ -309,6 +756,122 @@ const Sketchboard: React.FC = () => {
         });
     }
 
+    // The grid takes its color from the canvas' CSS color so it follows the theme. Its spacing
+    // grows when zoomed far out so lines never crowd together.
+    const drawGrid = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
+        if (gridMode === 'none') return;
+        let step = GRID_SIZE;
+        while (step * zoom < 10) step *= 5;
+        const visible = getVisibleBounds(viewport, { width: canvas.width, height: canvas.height });
+        const startX = Math.floor(visible.x / step) * step;
+        const startY = Math.floor(visible.y / step) * step;
+        const endX = visible.x + visible.width;
+        const endY = visible.y + visible.height;
+        const color = getComputedStyle(canvas).color;
+        if (gridMode === 'lines') {
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 0.5 / zoom;
+            ctx.beginPath();
+            for (let x = startX; x <= endX; x += step) {
+                ctx.moveTo(x, visible.y);
+                ctx.lineTo(x, endY);
+            }
+            for (let y = startY; y <= endY; y += step) {
+                ctx.moveTo(visible.x, y);
+                ctx.lineTo(endX, y);
+            }
+            ctx.stroke();
+        } else {
+            ctx.fillStyle = color;
+            const size = 1.5 / zoom;
+            for (let x = startX; x <= endX; x += step) {
+                for (let y = startY; y <= endY; y += step) {
+                    ctx.fillRect(x - size / 2, y - size / 2, size, size);
+                }
+            }
+        }
+    };
+
+    // Each segment fades with the age of its newer end, so the tail disappears first.
+    const drawLaserTrails = (ctx: CanvasRenderingContext2D) => {
+        const now = Date.now();
+        ctx.strokeStyle = LASER_COLOR;
+        ctx.lineCap = 'round';
+        ctx.lineWidth = 4 / zoom;
+        ctx.shadowColor = LASER_COLOR;
+        ctx.shadowBlur = 8;
+        Object.values(laserTrails).forEach(trail => {
+            for (let i = 1; i < trail.length; i++) {
+                const alpha = 1 - (now - trail[i].time) / LASER_FADE_MS;
+                if (alpha <= 0 || trail[i].isStart) continue;
+                ctx.globalAlpha = alpha;
+                ctx.beginPath();
+                ctx.moveTo(trail[i - 1].x, trail[i - 1].y);
+                ctx.lineTo(trail[i].x, trail[i].y);
+                ctx.stroke();
+            }
+        });
+        ctx.globalAlpha = 1;
+        ctx.shadowBlur = 0;
+    };
+
+    // Outlines what each peer has selected in their cursor's color.
+    const drawPeerSelections = (ctx: CanvasRenderingContext2D, visibleElements: BoardElement[]) => {
+        if (peerSelections.length === 0) return;
+        const byId = new Map(visibleElements.map(el => [el.id, el]));
+        const padding = 4 / zoom;
+        ctx.lineWidth = 2 / zoom;
+        peerSelections.forEach(({ color, ids }) => {
+            ctx.strokeStyle = color;
+            ids.forEach(id => {
+                const el = byId.get(id);
+                if (!el) return;
+                const b = getElementBounds(el);
+                withRotation(ctx, getBoundsCenter(b), getElementRotation(el), () => ctx.strokeRect(b.x - padding, b.y - padding, b.width + padding * 2, b.height + padding * 2));
+            });
+        });
+    };
+
+    const getRotationHandlePosition = (bounds: Bounds): Point => ({
+        x: bounds.x + bounds.width / 2,
+        y: bounds.y - ROTATION_HANDLE_OFFSET / zoom,
+    });
+
+    const drawRotationHandle = (ctx: CanvasRenderingContext2D, bounds: Bounds) => {
+        const handle = getRotationHandlePosition(bounds);
+        ctx.strokeStyle = '#3B82F6';
+        ctx.lineWidth = 1 / zoom;
+        ctx.beginPath();
+        ctx.moveTo(handle.x, bounds.y);
+        ctx.lineTo(handle.x, handle.y);
+        ctx.stroke();
+        ctx.fillStyle = '#FFFFFF';
+        ctx.lineWidth = 2 / zoom;
+        ctx.beginPath();
+        ctx.arc(handle.x, handle.y, 5 / zoom, 0, 2 * Math.PI);
+        ctx.fill();
+        ctx.stroke();
+    };
+
+    const isOnRotationHandle = (localPoint: Point, bounds: Bounds): boolean => {
+        const handle = getRotationHandlePosition(bounds);
+        const handleSize = 8 / zoom;
+        return Math.abs(localPoint.x - handle.x) < handleSize && Math.abs(localPoint.y - handle.y) < handleSize;
+    };
+
+    const drawEndpointHandles = (ctx: CanvasRenderingContext2D, endpoints: { start: Point; end: Point }) => {
+        const radius = 5 / zoom;
+        ctx.fillStyle = '#FFFFFF';
+        ctx.strokeStyle = '#3B82F6';
+        ctx.lineWidth = 2 / zoom;
+        [endpoints.start, endpoints.end].forEach(pos => {
+            ctx.beginPath();
+            ctx.arc(pos.x, pos.y, radius, 0, 2 * Math.PI);
+            ctx.fill();
+            ctx.stroke();
+        });
+    }
+
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
@@ -318,6 +881,7 @@ const Sketchboard: React.FC = () => {
         const resizeCanvas = () => {
             canvas.width = parent.clientWidth;
             canvas.height = parent.clientHeight;
+            setCanvasSize(prev => prev.width === canvas.width && prev.height === canvas.height ? prev : { width: canvas.width, height: canvas.height });
             redrawCanvas();
         };
         window.addEventListener('resize', resizeCanvas);
@@ -329,24 +893,54 @@ const Sketchboard: React.FC = () => {
         redrawCanvas();
     }, [redrawCanvas]);
 
-    const getElementAtPosition = (point: Point): BoardElement | null => {
-        return [...elements].reverse().find(el => {
+    const getElementAtPosition = (point: Point, includeLocked = false): BoardElement | null => {
+        // Pages draw beneath everything, so they are hit last.
+        const topmostFirst = [...elements].reverse();
+        const candidates = [...topmostFirst.filter(el => el.type !== 'page'), ...topmostFirst.filter(el => el.type === 'page')];
+        const hit = candidates.find(el => {
+            if (!includeLocked && isLocked(el)) return false;
             if (el.type === 'path') return isPointNearPath(point, el);
-            if (el.type === 'note' || el.type === 'rectangle' || el.type === 'image' || el.type === 'text') return isPointInBounds(point, getElementBounds(el));
+            if (el.type === 'line' || el.type === 'arrow') return isPointNearSegmentElement(point, el);
+            if (el.type === 'connector') return isPointNearPolyline(point, el.points, el.strokeWidth / 2 + 5);
+            const localPoint = toElementSpace(point, el);
+            if (el.type === 'note' || el.type === 'rectangle' || el.type === 'shape' || el.type === 'image' || el.type === 'page' || el.type === 'text') return isPointInBounds(localPoint, getElementBounds(el));
             if (el.type === 'circle') {
                 const { x, y, width, height } = getElementBounds(el);
                 const cx = x + width / 2;
                 const cy = y + height / 2;
                 const rx = width / 2;
                 const ry = height / 2;
-                return ((point.x - cx) ** 2) / (rx ** 2) + ((point.y - cy) ** 2) / (ry ** 2) <= 1;
+                return ((localPoint.x - cx) ** 2) / (rx ** 2) + ((localPoint.y - cy) ** 2) / (ry ** 2) <= 1;
             }
             return false;
-        }) || null;
+        });
+        if (hit) return hit;
+
+        // A selected group behaves as one object, so the gaps between its members still grab it.
+        const selectedGroupId = getSelectedGroupId();
+        if (selectedGroupId) {
+            const members = elements.filter(el => el.groupIds?.includes(selectedGroupId));
+            const bounds = getCommonBounds(members);
+            if (bounds && isPointInBounds(point, bounds)) return members[members.length - 1];
+        }
+        return null;
+    };
+
+    // The group id when the selection is exactly one whole group at the current drill-in level.
+    const getSelectedGroupId = (): string | null => {
+        const selection = elements.filter(el => selectedElementIds.includes(el.id));
+        if (selection.length === 0) return null;
+        const groupId = getSelectableGroupId(selection[0], editingGroupId);
+        if (!groupId) return null;
+        const memberIds = getGroupMemberIds(elements, groupId);
+        return memberIds.length === selection.length && selection.every(el => memberIds.includes(el.id)) ? groupId : null;
+    };
+
+    const getBindableElementAtPosition = (point: Point, excludeId?: string): BoardElement | null => {
+        return [...elements].reverse().find(el => el.id !== excludeId && isBindable(el) && isPointInBounds(toElementSpace(point, el), getElementBounds(el))) || null;
     };
     
-    const getResizeHandleAtPosition = (point: Point, element: BoardElement): ResizeHandle | null => {
-         const bounds = getElementBounds(element);
+    const getResizeHandleAtPosition = (point: Point, bounds: Bounds): ResizeHandle | null => {
          const handleSize = 8 / zoom;
          const handles = {
             topLeft: { x: bounds.x, y: bounds.y },
@@ -362,9 +956,89 @@ const Sketchboard: React.FC = () => {
          return null;
     }
 
-    const handleMouseDown = (e: React.MouseEvent) => {
+    const getEndpointHandleAtPosition = (point: Point, element: BoardElement): EndpointHandle | null => {
+        const endpoints = getEndpoints(element);
+        if (!endpoints) return null;
+        const handleSize = 8 / zoom;
+        if (Math.abs(point.x - endpoints.start.x) < handleSize && Math.abs(point.y - endpoints.start.y) < handleSize) return 'start';
+        if (Math.abs(point.x - endpoints.end.x) < handleSize && Math.abs(point.y - endpoints.end.y) < handleSize) return 'end';
+        return null;
+    }
+
+    // Sweeps the eraser from one pointer position to the next so fast drags don't skip strokes.
+    const eraseStrokesAlong = (from: Point, to: Point) => {
+        const radius = ERASER_RADIUS / zoom;
+        const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / radius));
+        const erased = { ...(erasedPathsRef.current ?? {}) };
+        let changed = false;
+        elements.forEach(el => {
+            if (el.type !== 'path') return;
+            let pieces = erased[el.id] ?? [el];
+            for (let step = 0; step <= steps; step++) {
+                const center = { x: from.x + ((to.x - from.x) * step) / steps, y: from.y + ((to.y - from.y) * step) / steps };
+                let touched = false;
+                pieces = pieces.flatMap(piece => {
+                    const result = erasePathSegment(piece, center, radius);
+                    if (!result) return [piece];
+                    touched = true;
+                    return result;
+                });
+                if (touched) {
+                    erased[el.id] = pieces;
+                    changed = true;
+                }
+            }
+        });
+        if (changed) {
+            erasedPathsRef.current = erased;
+            setErasedPaths(erased);
+        }
+    };
+
+    const addLaserPoints = (points: LaserPoint[]) => {
+        dispatch({ type: 'LASER_POINTER', payload: { userId: currentUser?.id ?? 'local', points } });
+    };
+
+    const getTouchPinch = () => {
+        const [a, b] = [...touchPointsRef.current.values()];
+        const rect = canvasRef.current!.getBoundingClientRect();
+        return {
+            distance: Math.hypot(b.x - a.x, b.y - a.y),
+            midpoint: { x: (a.x + b.x) / 2 - rect.left, y: (a.y + b.y) / 2 - rect.top },
+        };
+    };
+
+    // A second finger turns whatever the first one started into a pinch zoom.
+    const startPinch = () => {
+        setCurrentElement(null);
+        setDraftElements(null);
+        setMarquee(null);
+        setAction('pinching');
+        pinchStartRef.current = { ...getTouchPinch(), viewport };
+    };
+
+    const updatePinch = () => {
+        const start = pinchStartRef.current;
+        if (!start || touchPointsRef.current.size < 2) return;
+        const { distance, midpoint } = getTouchPinch();
+        const zoomed = zoomAtPoint(start.viewport, start.viewport.zoom * (distance / Math.max(start.distance, 1)), start.midpoint);
+        setViewport({
+            zoom: zoomed.zoom,
+            pan: { x: zoomed.pan.x + midpoint.x - start.midpoint.x, y: zoomed.pan.y + midpoint.y - start.midpoint.y },
+        });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
         if (contextMenu.visible) setContextMenu({ visible: false, x: 0, y: 0, elementId: null });
         if (e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        if (e.pointerType === 'touch') {
+            touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+            if (touchPointsRef.current.size === 2) {
+                startPinch();
+                return;
+            }
+        }
 
         const point = getCanvasPoint(e);
         setStartPoint(point);
@@ -377,32 +1051,77 @@ const Sketchboard: React.FC = () => {
         }
 
         if (activeTool === Tool.Select) {
-            const selectedElement = elements.find(el => el.id === selectedElementId);
-            if (selectedElement) {
-                const handle = getResizeHandleAtPosition(point, selectedElement);
-                if (handle) {
-                    setAction('resizing');
+            const selectedElements = elements.filter(el => selectedElementIds.includes(el.id));
+            if (selectedElements.length === 1) {
+                const endpoint = getEndpointHandleAtPosition(point, selectedElements[0]);
+                if (endpoint) {
+                    setAction('dragging-endpoint');
+                    setEndpointHandle(endpoint);
+                    setCurrentElement(selectedElements[0]);
+                    return;
+                }
+            }
+            if (hasResizeHandles(selectedElements)) {
+                const frame = getSelectionFrame(selectedElements);
+                const localPoint = toFrameSpace(point, frame);
+                const handle = getResizeHandleAtPosition(localPoint, frame.bounds);
+                const isRotating = isOnRotationHandle(localPoint, frame.bounds);
+                if (handle || isRotating) {
+                    setAction(isRotating ? 'rotating' : 'resizing');
                     setResizeHandle(handle);
-                    setCurrentElement(selectedElement);
+                    transformStartRef.current = { elements: selectedElements, frame };
+                    didTransformRef.current = false;
+                    setDraftElements(selectedElements);
                     return;
                 }
             }
             const elementAtPos = getElementAtPosition(point);
-            if (elementAtPos) {
-                dispatch({ type: 'SET_SELECTED_ELEMENT', payload: elementAtPos.id });
+            // Clicking outside the group being edited leaves it.
+            const groupContext = elementAtPos && editingGroupId && elementAtPos.groupIds?.includes(editingGroupId) ? editingGroupId : null;
+            if (groupContext !== editingGroupId) setEditingGroupId(groupContext);
+            const targetIds = elementAtPos ? getSelectionForElement(elements, elementAtPos, groupContext) : [];
+
+            if (elementAtPos && e.shiftKey) {
+                const isSelected = selectedElementIds.includes(elementAtPos.id);
+                dispatch({
+                    type: 'SET_SELECTED_ELEMENTS',
+                    payload: isSelected
+                        ? selectedElementIds.filter(id => !targetIds.includes(id))
+                        : [...new Set([...selectedElementIds, ...targetIds])],
+                });
+                setAction('none');
+            } else if (elementAtPos) {
+                const nextSelection = selectedElementIds.includes(elementAtPos.id) ? selectedElementIds : targetIds;
+                dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: nextSelection });
                 setAction('moving');
-                setCurrentElement(elementAtPos);
+                didTransformRef.current = false;
+                const moving = elements.filter(el => nextSelection.includes(el.id));
+                transformStartRef.current = { elements: moving, frame: getSelectionFrame(moving) };
+                setDraftElements(moving);
             } else {
-                dispatch({ type: 'SET_SELECTED_ELEMENT', payload: null });
-                setAction('none');
+                if (!e.shiftKey) dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: [] });
+                additiveSelectRef.current = e.shiftKey;
+                setAction('selecting');
+                setMarquee({ x: point.x, y: point.y, width: 0, height: 0 });
             }
             return;
         }
         
         setAction('drawing');
+        const strokeProps = { color, strokeWidth, opacity, strokeStyle };
         if (activeTool === Tool.Pen) {
-            const newPath: PathElement = { id: uuidv4(), type: 'path', points: [point], color, strokeWidth };
+            const newPath: PathElement = { id: uuidv4(), type: 'path', points: [{ ...point, pressure: getPointerPressure(e.nativeEvent) }], ...strokeProps };
             setCurrentElement(newPath);
+        } else if (activeTool === Tool.Highlighter) {
+            const newPath: PathElement = {
+                id: uuidv4(), type: 'path', points: [point], color, strokeWidth: strokeWidth * HIGHLIGHTER_WIDTH_SCALE,
+                opacity: HIGHLIGHTER_OPACITY, strokeStyle: 'solid', isHighlighter: true,
+            };
+            setCurrentElement(newPath);
+        } else if (activeTool === Tool.Laser) {
+            addLaserPoints([{ ...point, time: Date.now(), isStart: true }]);
+        } else if (activeTool === Tool.Eraser && eraserMode === 'stroke') {
+            eraseStrokesAlong(point, point);
         } else if (activeTool === Tool.Eraser) {
             const elementToDelete = getElementAtPosition(point);
             if (elementToDelete) {
@@ -413,11 +1132,29 @@ const Sketchboard: React.FC = () => {
             dispatch({ type: 'ADD_ELEMENT', payload: { element: newNote, select: true } });
             setAction('none');
         } else if (activeTool === Tool.Rectangle) {
-            const newRect: RectangleElement = { id: uuidv4(), type: 'rectangle', x: point.x, y: point.y, width: 0, height: 0, color, strokeWidth };
+            const newRect: RectangleElement = { id: uuidv4(), type: 'rectangle', x: point.x, y: point.y, width: 0, height: 0, ...strokeProps, fillColor };
             setCurrentElement(newRect);
         } else if (activeTool === Tool.Circle) {
-            const newCircle: CircleElement = { id: uuidv4(), type: 'circle', x: point.x, y: point.y, width: 0, height: 0, color, strokeWidth };
+            const newCircle: CircleElement = { id: uuidv4(), type: 'circle', x: point.x, y: point.y, width: 0, height: 0, ...strokeProps, fillColor };
             setCurrentElement(newCircle);
+        } else if (activeTool === Tool.Shape) {
+            const newShape: ShapeElement = { id: uuidv4(), type: 'shape', shape: shapeKind, x: point.x, y: point.y, width: 0, height: 0, ...strokeProps, fillColor, label: '' };
+            setCurrentElement(newShape);
+        } else if (activeTool === Tool.Line) {
+            const newLine: LineElement = { id: uuidv4(), type: 'line', start: point, end: point, ...strokeProps };
+            setCurrentElement(newLine);
+        } else if (activeTool === Tool.Arrow) {
+            const newArrow: ArrowElement = { id: uuidv4(), type: 'arrow', start: point, end: point, ...strokeProps, arrowhead: 'filled' };
+            setCurrentElement(newArrow);
+        } else if (activeTool === Tool.Connector) {
+            const target = getBindableElementAtPosition(point);
+            const newConnector: ConnectorElement = {
+                id: uuidv4(), type: 'connector',
+                start: { elementId: target?.id ?? null, point },
+                end: { elementId: null, point },
+                routing: 'straight', points: [point, point], ...strokeProps, arrowhead: 'filled',
+            };
+            setCurrentElement(routeConnector(newConnector, elements));
         } else if (activeTool === Tool.Text) {
             const newText: TextElement = {
                 id: uuidv4(), type: 'text', x: point.x, y: point.y, width: 200, height: 24,
@@ -428,15 +1165,30 @@ const Sketchboard: React.FC = () => {
         }
     };
 
-    const handleMouseMove = (e: React.MouseEvent) => {
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (touchPointsRef.current.has(e.pointerId)) {
+            touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        }
+        if (action === 'pinching') {
+            updatePinch();
+            return;
+        }
         const point = getCanvasPoint(e);
+        lastPointerRef.current = point;
+        dispatch({ type: 'MOVE_CURSOR', payload: point });
 
         if (activeTool === Tool.Select) {
-            const selectedEl = elements.find(el => el.id === selectedElementId);
+            const selectedElements = elements.filter(el => selectedElementIds.includes(el.id));
             let newCursor = 'default';
-            if (selectedEl) {
-                const handle = getResizeHandleAtPosition(point, selectedEl);
-                if (handle) {
+            if (selectedElements.length > 0) {
+                const frame = hasResizeHandles(selectedElements) ? getSelectionFrame(selectedElements) : null;
+                const localPoint = frame ? toFrameSpace(point, frame) : point;
+                const handle = frame ? getResizeHandleAtPosition(localPoint, frame.bounds) : null;
+                if (selectedElements.length === 1 && getEndpointHandleAtPosition(point, selectedElements[0])) {
+                    newCursor = 'crosshair';
+                } else if (frame && isOnRotationHandle(localPoint, frame.bounds)) {
+                    newCursor = 'grab';
+                } else if (handle) {
                     if (handle.includes('Left') || handle.includes('Right')) newCursor = 'ew-resize';
                     if (handle.includes('Top') || handle.includes('Bottom')) newCursor = 'ns-resize';
                     if (handle === 'topLeft' || handle === 'bottomRight') newCursor = 'nwse-resize';
@@ -453,44 +1205,120 @@ const Sketchboard: React.FC = () => {
         }
         
         if (action === 'panning') {
-            setPan({ x: e.clientX - panStart.x, y: e.clientY - panStart.y });
+            setViewport({ zoom, pan: { x: e.clientX - panStart.x, y: e.clientY - panStart.y } });
             return;
         }
         
-        if (action !== 'drawing') {
-            if (action === 'none' || !currentElement || !lastPointRef.current) return;
+        if (action === 'selecting') {
+            setMarquee(getBoundsFromPoints(startPoint, point));
+            return;
+        }
+
+        if (action === 'moving' || action === 'resizing' || action === 'rotating') {
+            if (!draftElements || !lastPointRef.current) return;
             const dx = point.x - lastPointRef.current.x;
             const dy = point.y - lastPointRef.current.y;
-    
-            if (action === 'moving') {
-                if (currentElement.type === 'path') {
-                    setCurrentElement({
-                        ...currentElement,
-                        points: currentElement.points.map(p => ({ x: p.x + dx, y: p.y + dy })),
-                    });
-                } else {
-                    setCurrentElement({ ...currentElement, x: (currentElement as any).x + dx, y: (currentElement as any).y + dy });
+            if (dx === 0 && dy === 0) return;
+            didTransformRef.current = true;
+
+            if (action === 'moving' && transformStartRef.current) {
+                const originals = transformStartRef.current.elements;
+                const startBounds = getCommonBounds(originals)!;
+                let totalDx = point.x - startPoint.x;
+                let totalDy = point.y - startPoint.y;
+                const moved = { ...startBounds, x: startBounds.x + totalDx, y: startBounds.y + totalDy };
+                let newGuides: Guide[] = [];
+                // Grid snapping wins over guides; Alt turns both off for free placement.
+                if (isSnapToGridOn && !e.altKey) {
+                    totalDx += snapToGrid(moved.x) - moved.x;
+                    totalDy += snapToGrid(moved.y) - moved.y;
+                } else if (!e.altKey) {
+                    const originalIds = new Set(originals.map(el => el.id));
+                    const visible = getVisibleBounds(viewport, canvasSize);
+                    const others = elements
+                        .filter(el => !originalIds.has(el.id) && el.type !== 'connector')
+                        .map(getRotatedBounds)
+                        .filter(b => doBoundsIntersect(b, visible));
+                    const snap = getAlignmentSnap(moved, others, GUIDE_SNAP_THRESHOLD / zoom);
+                    totalDx += snap.dx;
+                    totalDy += snap.dy;
+                    newGuides = snap.guides;
                 }
-            } else if (action === 'resizing' && currentElement.type !== 'path') {
-                const { x, y, width, height } = currentElement as any;
-                let newX = x, newY = y, newWidth = width, newHeight = height;
-    
-                if (resizeHandle?.includes('Left')) { newWidth -= dx; newX += dx; }
-                if (resizeHandle?.includes('Right')) { newWidth += dx; }
-                if (resizeHandle?.includes('Top')) { newHeight -= dy; newY += dy; }
-                if (resizeHandle?.includes('Bottom')) { newHeight += dy; }
-                
-                if (newWidth > 10 && newHeight > 10) {
-                     setCurrentElement({ ...currentElement, x: newX, y: newY, width: newWidth, height: newHeight });
+                setGuides(newGuides);
+                setDraftElements(originals.map(el => translateElement(el, totalDx, totalDy)));
+            } else if (action === 'rotating' && transformStartRef.current) {
+                const { frame, elements: originals } = transformStartRef.current;
+                const pivot = getBoundsCenter(frame.bounds);
+                const startAngle = Math.atan2(startPoint.y - pivot.y, startPoint.x - pivot.x);
+                let delta = Math.atan2(point.y - pivot.y, point.x - pivot.x) - startAngle;
+                if (e.shiftKey) {
+                    delta = Math.round((frame.rotation + delta) / ROTATION_SNAP) * ROTATION_SNAP - frame.rotation;
+                }
+                setDraftElements(originals.map(el => rotateElement(el, pivot, delta)));
+            } else if (transformStartRef.current && resizeHandle) {
+                const { frame } = transformStartRef.current;
+                const from = frame.bounds;
+                // Work in the frame's unrotated space so handles follow the element's own axes.
+                const localStart = toFrameSpace(startPoint, frame);
+                const localPoint = toFrameSpace(point, frame);
+                const totalDx = localPoint.x - localStart.x;
+                const totalDy = localPoint.y - localStart.y;
+                let { x, y, width, height } = from;
+
+                if (resizeHandle.includes('Left')) { width -= totalDx; x += totalDx; }
+                if (resizeHandle.includes('Right')) { width += totalDx; }
+                if (resizeHandle.includes('Top')) { height -= totalDy; y += totalDy; }
+                if (resizeHandle.includes('Bottom')) { height += totalDy; }
+
+                if (isSnapToGridOn && frame.rotation === 0 && !e.altKey) {
+                    if (resizeHandle.includes('Left')) { const left = snapToGrid(x); width += x - left; x = left; }
+                    if (resizeHandle.includes('Right')) { width = snapToGrid(x + width) - x; }
+                    if (resizeHandle.includes('Top')) { const top = snapToGrid(y); height += y - top; y = top; }
+                    if (resizeHandle.includes('Bottom')) { height = snapToGrid(y + height) - y; }
+                }
+
+                // Flat selections (a horizontal stroke, say) keep their zero extent instead of hitting the minimum size.
+                if ((width > 10 || from.width === 0) && (height > 10 || from.height === 0)) {
+                    const to = { x, y, width: from.width === 0 ? 0 : width, height: from.height === 0 ? 0 : height };
+                    if (frame.rotation !== 0) {
+                        // Resizing moves the rotation center, so shift the box back to keep the opposite corner in place.
+                        const anchor = {
+                            x: resizeHandle.includes('Left') ? from.x + from.width : from.x,
+                            y: resizeHandle.includes('Top') ? from.y + from.height : from.y,
+                        };
+                        const before = rotatePoint(anchor, getBoundsCenter(from), frame.rotation);
+                        const after = rotatePoint(anchor, getBoundsCenter(to), frame.rotation);
+                        to.x += before.x - after.x;
+                        to.y += before.y - after.y;
+                    }
+                    setDraftElements(transformStartRef.current.elements.map(el => scaleElement(el, from, to)));
                 }
             }
             lastPointRef.current = point;
             return;
         }
 
+        if (action !== 'drawing') {
+            if (action === 'none' || !currentElement || !lastPointRef.current) return;
+
+            if (action === 'dragging-endpoint' && endpointHandle && isLinear(currentElement)) {
+                const anchor = endpointHandle === 'start' ? currentElement.end : currentElement.start;
+                setCurrentElement({ ...currentElement, [endpointHandle]: e.shiftKey ? snapEndpointAngle(anchor, point) : point });
+            } else if (action === 'dragging-endpoint' && endpointHandle && currentElement.type === 'connector') {
+                const target = getBindableElementAtPosition(point);
+                const endpoint = { elementId: target?.id ?? null, point };
+                setCurrentElement(routeConnector({ ...currentElement, [endpointHandle]: endpoint }, elements));
+            }
+            lastPointRef.current = point;
+            return;
+        }
+
         if (currentElement?.type === 'path') {
-            setCurrentElement(prev => ({ ...prev, points: [...(prev as PathElement).points, point] } as PathElement));
-        } else if (currentElement?.type === 'rectangle' || currentElement?.type === 'circle') {
+            // Pens report far more samples than animation frames; coalesced events keep them all.
+            const samples = e.nativeEvent.getCoalescedEvents?.() ?? [];
+            const newPoints = (samples.length > 0 ? samples : [e.nativeEvent]).map(sample => ({ ...getCanvasPoint(sample), pressure: getPointerPressure(sample) }));
+            setCurrentElement(prev => ({ ...prev, points: [...(prev as PathElement).points, ...newPoints] } as PathElement));
+        } else if (currentElement?.type === 'rectangle' || currentElement?.type === 'circle' || currentElement?.type === 'shape') {
             const newWidth = point.x - startPoint.x;
             const newHeight = point.y - startPoint.y;
             setCurrentElement({
@@ -500,6 +1328,16 @@ const Sketchboard: React.FC = () => {
                 width: Math.abs(newWidth),
                 height: Math.abs(newHeight),
             });
+        } else if (activeTool === Tool.Laser) {
+            addLaserPoints([{ ...point, time: Date.now() }]);
+        } else if (currentElement && isLinear(currentElement)) {
+            setCurrentElement({ ...currentElement, end: e.shiftKey ? snapEndpointAngle(currentElement.start, point) : point });
+        } else if (currentElement?.type === 'connector') {
+            const target = getBindableElementAtPosition(point);
+            setCurrentElement(routeConnector({ ...currentElement, end: { elementId: target?.id ?? null, point } }, elements));
+        } else if (activeTool === Tool.Eraser && eraserMode === 'stroke') {
+            eraseStrokesAlong(lastPointRef.current ?? point, point);
+            lastPointRef.current = point;
         } else if (activeTool === Tool.Eraser) {
              const elementToDelete = getElementAtPosition(point);
             if (elementToDelete) {
@@ -508,79 +1346,316 @@ const Sketchboard: React.FC = () => {
         }
     };
 
-    const handleMouseUp = () => {
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        touchPointsRef.current.delete(e.pointerId);
+        pinchStartRef.current = null;
+        if (erasedPathsRef.current) {
+            const replacements = Object.entries(erasedPathsRef.current).map(([id, pieces]) => ({ id, elements: pieces }));
+            if (replacements.length > 0) {
+                dispatch({ type: 'REPLACE_ELEMENTS', payload: { replacements } });
+            }
+            erasedPathsRef.current = null;
+            setErasedPaths(null);
+        }
         if (action === 'drawing' && currentElement) {
-             if (currentElement.type === 'rectangle' || currentElement.type === 'circle') {
+             if (currentElement.type === 'rectangle' || currentElement.type === 'circle' || currentElement.type === 'shape') {
                 if (currentElement.width > 0 || currentElement.height > 0) {
                     dispatch({ type: 'ADD_ELEMENT', payload: { element: currentElement, select: true } });
                 }
+            } else if (isLinear(currentElement)) {
+                if (currentElement.start.x !== currentElement.end.x || currentElement.start.y !== currentElement.end.y) {
+                    dispatch({ type: 'ADD_ELEMENT', payload: { element: currentElement, select: true } });
+                }
+            } else if (currentElement.type === 'connector') {
+                const { start, end } = currentElement;
+                const isSelfLoop = start.elementId !== null && start.elementId === end.elementId;
+                const hasLength = start.point.x !== end.point.x || start.point.y !== end.point.y;
+                if (hasLength && !isSelfLoop) {
+                    dispatch({ type: 'ADD_ELEMENT', payload: { element: currentElement, select: true } });
+                }
+            } else if (currentElement.type === 'path') {
+                const points = simplifyStroke(currentElement.points, STROKE_SIMPLIFY_TOLERANCE / zoom, currentElement.strokeWidth);
+                dispatch({ type: 'ADD_ELEMENT', payload: { element: { ...currentElement, points }, select: false } });
             } else {
                  dispatch({ type: 'ADD_ELEMENT', payload: { element: currentElement, select: false } });
             }
-        } else if ((action === 'moving' || action === 'resizing') && currentElement) {
+        } else if (action === 'dragging-endpoint' && currentElement) {
             dispatch({ type: 'UPDATE_ELEMENT', payload: currentElement });
+        } else if ((action === 'moving' || action === 'resizing' || action === 'rotating') && draftElements && didTransformRef.current) {
+            const drafts = new Map<string, BoardElement>(draftElements.map(el => [el.id, el]));
+            const merged = elements.map(el => drafts.get(el.id) ?? el);
+            const updates = draftElements.map(el => el.type === 'connector' ? routeConnector(el, merged) : el);
+            dispatch({ type: 'UPDATE_ELEMENTS', payload: updates });
+        } else if (action === 'selecting' && marquee) {
+            const enclosedIds = new Set(elements.filter(el => !isLocked(el) && isBoundsInside(getRotatedBounds(el), marquee)).map(el => el.id));
+            // Groups are only picked up when the marquee covers all of their members.
+            const enclosed = elements
+                .filter(el => enclosedIds.has(el.id))
+                .map(el => getSelectionForElement(elements, el, editingGroupId))
+                .filter(ids => ids.every(id => enclosedIds.has(id)))
+                .flat();
+            const base = additiveSelectRef.current ? selectedElementIds : [];
+            dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: [...new Set([...base, ...enclosed])] });
         }
         setAction('none');
+        setDraftElements(null);
+        setMarquee(null);
+        setGuides([]);
+        transformStartRef.current = null;
         setCurrentElement(null);
         lastPointRef.current = null;
         setResizeHandle(null);
+        setEndpointHandle(null);
     };
 
-    const handleWheel = (e: React.WheelEvent) => {
-        e.preventDefault();
-        const scaleAmount = -e.deltaY * 0.001;
-        applyZoom(Math.max(0.1, Math.min(5, zoom + scaleAmount)), e.clientX, e.clientY);
+    // Double-clicking a grouped element drills one level into its group.
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        if (activeTool !== Tool.Select) return;
+        const elementAtPos = getElementAtPosition(getCanvasPoint(e));
+        if (!elementAtPos) return;
+        const groupId = getSelectableGroupId(elementAtPos, editingGroupId);
+        if (!groupId) {
+            if (elementAtPos.type === 'shape') {
+                dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: [elementAtPos.id] });
+                setEditingLabelId(elementAtPos.id);
+            }
+            return;
+        }
+        setEditingGroupId(groupId);
+        dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: getSelectionForElement(elements, elementAtPos, groupId) });
+    };
+
+    const setViewport = (newViewport: Viewport) => {
+        dispatch({ type: 'SET_VIEWPORT', payload: newViewport });
     };
 
     const applyZoom = (newZoom: number, clientX?: number, clientY?: number) => {
         const canvas = canvasRef.current!;
         const rect = canvas.getBoundingClientRect();
-        const mouseX = clientX ? clientX - rect.left : canvas.width / 2;
-        const mouseY = clientY ? clientY - rect.top : canvas.height / 2;
-        const mousePoint = { x: (mouseX - pan.x) / zoom, y: (mouseY - pan.y) / zoom };
-        const newPanX = mouseX - mousePoint.x * newZoom;
-        const newPanY = mouseY - mousePoint.y * newZoom;
-        setZoom(newZoom);
-        setPan({ x: newPanX, y: newPanY });
+        const mouseX = clientX !== undefined ? clientX - rect.left : canvas.width / 2;
+        const mouseY = clientY !== undefined ? clientY - rect.top : canvas.height / 2;
+        setViewport(zoomAtPoint(viewport, newZoom, { x: mouseX, y: mouseY }));
+    };
+
+    // Trackpad pinches arrive as wheel events with ctrlKey set and need a stronger response. React
+    // listens to wheel events passively, so this listener is added directly to be able to stop the
+    // browser from zooming the page as well.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const sensitivity = e.ctrlKey ? 0.01 : 0.001;
+            applyZoom(zoom * Math.exp(-e.deltaY * sensitivity), e.clientX, e.clientY);
+        };
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        return () => {
+            canvas.removeEventListener('wheel', handleWheel);
+        };
+    }, [viewport]);
+
+    const handleZoomIn = () => applyZoom(zoom * 1.2);
+    const handleZoomOut = () => applyZoom(zoom / 1.2);
+    const handleResetZoom = () => setViewport(DEFAULT_VIEWPORT);
+
+    const zoomToElements = (targets: BoardElement[]) => {
+        const bounds = getCommonBounds(targets);
+        if (bounds) setViewport(fitBounds(bounds, canvasSize));
+    };
+
+    const handleExport = async (scope: ExportScope, options: ExportOptions) => {
+        let targets = elements;
+        let bounds: Bounds | null;
+        if (scope === 'viewport') {
+            const visible = getVisibleBounds(viewport, canvasSize);
+            targets = elements.filter(el => doBoundsIntersect(getRotatedBounds(el), visible));
+            bounds = visible;
+        } else {
+            if (scope === 'selection') targets = elements.filter(el => selectedElementIds.includes(el.id));
+            const common = getCommonBounds(targets);
+            bounds = common && {
+                x: common.x - EXPORT_PADDING,
+                y: common.y - EXPORT_PADDING,
+                width: common.width + EXPORT_PADDING * 2,
+                height: common.height + EXPORT_PADDING * 2,
+            };
+        }
+        if (!bounds) throw new Error('There is nothing to export yet.');
+        const blob = await exportElements(targets, bounds, options);
+        downloadBlob(blob, `meetboard-${new Date().toISOString().slice(0, 10)}.${options.format}`);
+    };
+
+    // Resolves to the features the chosen format couldn't carry.
+    const handleSaveBoard = async (format: BoardSaveFormat, embedImages: boolean): Promise<string[]> => {
+        const date = new Date().toISOString().slice(0, 10);
+        if (format === 'excalidraw') {
+            const { document, dropped } = await toExcalidraw(elements);
+            downloadBlob(new Blob([JSON.stringify(document)], { type: 'application/json' }), `meetboard-${date}${EXCALIDRAW_FILE_EXTENSION}`);
+            return dropped;
+        }
+        const file = await createBoardFile(elements, viewport, { name: `Meetboard ${date}`, exportedBy: currentUser?.name }, embedImages);
+        downloadBlob(new Blob([JSON.stringify(file)], { type: 'application/json' }), `meetboard-${date}${BOARD_FILE_EXTENSION}`);
+        return [];
+    };
+
+    const handleOpenBoardFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setOpenedBoard({ loaded: readBoardDocument(await file.text()), error: null });
+        } catch (error) {
+            if (!(error instanceof BoardFileError)) console.error('Error opening board file:', error);
+            setOpenedBoard({ loaded: null, error: error instanceof BoardFileError ? error.message : 'This file could not be read.' });
+        }
+    };
+
+    // Replacing seeds the room like a fresh load; adding brings the saved elements in under new ids.
+    const handleImportBoard = async (mode: BoardImportMode) => {
+        if (!openedBoard?.loaded) return;
+        const { file } = openedBoard.loaded;
+        const imported = await uploadEmbeddedImages(file);
+        if (mode === 'replace') {
+            dispatch({ type: 'SET_INITIAL_ELEMENTS', payload: imported });
+            setViewport(file.viewport);
+        } else {
+            const copies = cloneElements(imported, 0, 0);
+            dispatch({ type: 'ADD_ELEMENTS', payload: { elements: copies, select: true } });
+            zoomToElements(copies);
+        }
+    };
+
+    // Templates land in the middle of the view as a single addition, so one undo removes them.
+    const handleInsertTemplate = (template: BoardTemplate) => {
+        const copies = cloneElementsAt(template.elements, getBoundsCenter(getVisibleBounds(viewport, canvasSize)));
+        if (copies.length === 0) return;
+        dispatch({ type: 'ADD_ELEMENTS', payload: { elements: copies, select: true } });
+    };
+
+    const handleRestoreVersion = (restored: BoardElement[]) => {
+        dispatch({ type: 'RESTORE_VERSION', payload: restored });
     };
 
-    const handleZoomIn = () => applyZoom(Math.min(5, zoom * 1.2));
-    const handleZoomOut = () => applyZoom(Math.max(0.1, zoom / 1.2));
-    const handleResetZoom = () => {
-        setZoom(1);
-        setPan({ x: 0, y: 0 });
+    const pages = elements.filter((el): el is PageElement => el.type === 'page');
+
+    // The page whose center is closest to the middle of the view.
+    const getCurrentPageIndex = () => {
+        if (pages.length === 0) return -1;
+        const center = getBoundsCenter(getVisibleBounds(viewport, canvasSize));
+        const distances = pages.map(page => {
+            const pageCenter = getBoundsCenter(getElementBounds(page));
+            return Math.hypot(pageCenter.x - center.x, pageCenter.y - center.y);
+        });
+        return distances.indexOf(Math.min(...distances));
     };
 
+    const handleNavigatePage = (index: number) => {
+        const page = pages[index];
+        if (page) zoomToElements([page]);
+    };
+
+    const handleTogglePageLock = (page: PageElement) => {
+        dispatch({ type: 'UPDATE_ELEMENT', payload: { ...page, locked: !page.locked } });
+        if (!page.locked) {
+            dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: selectedElementIds.filter(id => id !== page.id) });
+        }
+    };
+
+    const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        const files = Array.from(e.dataTransfer.files);
+        const images = files.filter(file => file.type.startsWith('image/'));
+        const pdfs = files.filter(isPdfFile);
+        if (images.length === 0 && pdfs.length === 0) return;
+        e.preventDefault();
+        const point = getCanvasPoint(e);
+        if (images.length > 0) addImagesToBoard(images, point, dispatch);
+        pdfs.forEach(file => importPdfToBoard(file, point, dispatch));
+    };
+
+    const handleCycleGridMode = () => {
+        dispatch({ type: 'SET_GRID_MODE', payload: GRID_MODES[(GRID_MODES.indexOf(gridMode) + 1) % GRID_MODES.length] });
+    };
+
+    const handleZoomToFit = () => zoomToElements(elements);
+    const handleZoomToSelection = () => zoomToElements(elements.filter(el => selectedElementIds.includes(el.id)));
+
     const handleContextMenu = (e: React.MouseEvent) => {
         e.preventDefault();
         const point = getCanvasPoint(e);
-        const clickedElement = getElementAtPosition(point);
+        // Locked pages still get a menu so they can be unlocked.
+        const clickedElement = getElementAtPosition(point, true);
         if (clickedElement) {
-            dispatch({ type: 'SET_SELECTED_ELEMENT', payload: clickedElement.id });
+            if (!selectedElementIds.includes(clickedElement.id)) {
+                dispatch({ type: 'SET_SELECTED_ELEMENTS', payload: getSelectionForElement(elements, clickedElement, editingGroupId) });
+            }
             setContextMenu({ visible: true, x: e.clientX, y: e.clientY, elementId: clickedElement.id });
         } else {
             setContextMenu({ visible: false, x: 0, y: 0, elementId: null });
         }
     };
 
-    const handleDeleteElement = (id: string) => {
-        dispatch({ type: 'DELETE_ELEMENT', payload: { id } });
+    const handleDeleteElements = (ids: string[]) => {
+        dispatch({ type: 'DELETE_ELEMENTS', payload: { ids } });
         setContextMenu({ visible: false, x: 0, y: 0, elementId: null });
     };
 
     const handleUpdateElement = (element: BoardElement) => {
-        dispatch({ type: 'UPDATE_ELEMENT', payload: element });
+        dispatch({ type: 'UPDATE_ELEMENT', payload: element.type === 'connector' ? routeConnector(element, elements) : element });
+    };
+
+    const handleUpdateElements = (updated: BoardElement[]) => {
+        dispatch({ type: 'UPDATE_ELEMENTS', payload: updated });
+    };
+
+    const handleReorder = (direction: ZOrderDirection) => {
+        if (selectedElementIds.length === 0) return;
+        dispatch({ type: 'REORDER_ELEMENTS', payload: { ids: selectedElementIds, direction } });
+        setContextMenu({ visible: false, x: 0, y: 0, elementId: null });
+    };
+
+    // Groups align and distribute as one unit. Connectors follow the shapes they are bound to.
+    const getAlignUnitKey = (el: BoardElement) => getSelectableGroupId(el, editingGroupId) ?? el.id;
+    const getAlignableSelection = () => elements.filter(el => selectedElementIds.includes(el.id) && el.type !== 'connector');
+
+    const handleAlign = (alignment: Alignment) => {
+        dispatch({ type: 'UPDATE_ELEMENTS', payload: alignElements(getAlignableSelection(), alignment, getAlignUnitKey) });
+        setContextMenu({ visible: false, x: 0, y: 0, elementId: null });
+    };
+
+    const handleDistribute = (distribution: Distribution) => {
+        dispatch({ type: 'UPDATE_ELEMENTS', payload: distributeElements(getAlignableSelection(), distribution, getAlignUnitKey) });
+        setContextMenu({ visible: false, x: 0, y: 0, elementId: null });
     };
     
     const drawPath = (ctx: CanvasRenderingContext2D, data: PathElement) => {
+        const points = smoothStroke(data.points);
+        if (points.length === 0) return;
         ctx.beginPath();
-        if (data.points.length > 0) {
-            ctx.moveTo(data.points[0].x, data.points[0].y);
-            for (let i = 1; i < data.points.length; i++) {
-                ctx.lineTo(data.points[i].x, data.points[i].y);
-            }
+        // Dash patterns only apply to strokes, so patterned paths and highlighters keep a constant width.
+        if (data.isHighlighter || (data.strokeStyle && data.strokeStyle !== 'solid')) {
+            ctx.moveTo(points[0].x, points[0].y);
+            points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+            ctx.stroke();
+            return;
         }
-        ctx.stroke();
+        // Outline and round caps go into one path and are filled once, so translucent strokes
+        // don't darken where they overlap.
+        const outline = getStrokeOutline(points, data.strokeWidth);
+        outline.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        [points[0], points[points.length - 1]].forEach(p => {
+            const radius = getPressureWidth(p, data.strokeWidth) / 2;
+            ctx.moveTo(p.x + radius, p.y);
+            ctx.arc(p.x, p.y, radius, 0, 2 * Math.PI);
+        });
+        ctx.fillStyle = data.color;
+        ctx.fill();
     };
     
     const updateStickyNote = (updatedNote: StickyNoteElement) => {
@@ -596,35 +1671,102 @@ const Sketchboard: React.FC = () => {
         setShowClearConfirm(false);
     };
 
+    // Notes and text are DOM elements, so they follow the in-progress drafts here rather than on the canvas.
+    const draftMap = draftElements ? new Map<string, BoardElement>(draftElements.map(el => [el.id, el])) : null;
+    const displayElements = draftMap ? shownElements.map(el => draftMap.get(el.id) ?? el) : shownElements;
+
+    const editingLabelElement = elements.find(el => el.id === editingLabelId);
+    const labelEditorElement = editingLabelElement?.type === 'shape' ? editingLabelElement : null;
+
+    const handleLabelCommit = (label: string) => {
+        if (labelEditorElement && label !== labelEditorElement.label) {
+            dispatch({ type: 'UPDATE_ELEMENT', payload: { ...labelEditorElement, label } });
+        }
+        setEditingLabelId(null);
+    };
+
     const elementForMenu = contextMenu.elementId ? elements.find(el => el.id === contextMenu.elementId) : null;
+    const selectionForMenu = elements.filter(el => selectedElementIds.includes(el.id));
+    const alignUnitCount = countUnits(selectionForMenu.filter(el => el.type !== 'connector'), getAlignUnitKey);
 
     return (
-        <div className="relative w-full h-full bg-slate-100/80 dark:bg-slate-900/80 backdrop-blur-sm overflow-hidden" style={{ cursor }} onContextMenu={handleContextMenu}>
-            <div className="absolute inset-0 bg-repeat bg-center text-slate-300 dark:text-slate-700" style={{ backgroundImage: `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' width='20' height='20'%3e%3cpath d='M 20 0 L 0 0 0 20' fill='none' stroke='currentColor' stroke-width='0.5'/%3e%3c/svg%3e")` }}></div>
-            <canvas ref={canvasRef} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onWheel={handleWheel} className="absolute top-0 left-0" />
+        <div className="relative w-full h-full bg-slate-100/80 dark:bg-slate-900/80 backdrop-blur-sm overflow-hidden" style={{ cursor }} onContextMenu={handleContextMenu} onDragOver={handleDragOver} onDrop={handleDrop}>
+                        <canvas ref={canvasRef} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp} onPointerLeave={e => { lastPointerRef.current = null; dispatch({ type: 'MOVE_CURSOR', payload: null }); handlePointerUp(e); }} onDoubleClick={handleDoubleClick} className="absolute top-0 left-0 text-slate-300 dark:text-slate-700" style={{ touchAction: 'none' }} />
             <div className="absolute top-0 left-0" style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, transformOrigin: '0 0', pointerEvents: action !== 'none' ? 'none' : 'auto' }}>
-                {elements.filter(el => el.type === 'note').map(note => (
-                    <StickyNote key={note.id} data={note as StickyNoteElement} onUpdate={updateStickyNote} isSelected={note.id === selectedElementId} />
-                ))}
-                {elements.filter(el => el.type === 'text').map(text => (
-                    <TextElementComponent key={text.id} data={text as TextElement} onUpdate={updateTextElement} isSelected={text.id === selectedElementId} />
+                {/* Notes and text share one layer so their relative stacking follows the element order. */}
+                {displayElements.map(el => {
+                    if (el.type === 'note') {
+                        return <StickyNote key={el.id} data={el} onUpdate={updateStickyNote} isSelected={selectedElementIds.includes(el.id)} />;
+                    }
+                    if (el.type === 'text') {
+                        return <TextElementComponent key={el.id} data={el} onUpdate={updateTextElement} isSelected={selectedElementIds.includes(el.id)} />;
+                    }
+                    return null;
+                })}
+                {imageUploads.map(upload => (
+                    <ImageUploadPlaceholder key={upload.id} upload={upload} onDismiss={id => dispatch({ type: 'REMOVE_IMAGE_UPLOAD', payload: { id } })} />
                 ))}
+                {labelEditorElement && (
+                    <ShapeLabelEditor key={labelEditorElement.id} element={labelEditorElement} onCommit={handleLabelCommit} />
+                )}
             </div>
+            <RemoteCursors cursors={Object.values(cursors)} pan={pan} zoom={zoom} />
             
             <button onClick={() => setShowClearConfirm(true)} className="absolute top-16 right-4 z-20 p-2 bg-red-500 text-white rounded-full shadow-lg hover:bg-red-600" title="Clear Entire Canvas">
                 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/><path d="M10 11v6"/><path d="M14 11v6"/></svg>
             </button>
 
+            <button onClick={() => setShowExportDialog(true)} className="absolute top-28 right-4 z-20 p-2 bg-white/70 dark:bg-slate-800/70 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-full shadow-lg hover:bg-slate-200 dark:hover:bg-slate-700" title="Export Board">
+                <Download className="w-5 h-5" />
+            </button>
+
+            <button onClick={() => boardFileInputRef.current?.click()} className="absolute top-40 right-4 z-20 p-2 bg-white/70 dark:bg-slate-800/70 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-full shadow-lg hover:bg-slate-200 dark:hover:bg-slate-700" title="Open Board File">
+                <FolderOpen className="w-5 h-5" />
+            </button>
+            <input type="file" ref={boardFileInputRef} onChange={handleOpenBoardFile} accept={OPENABLE_FILE_TYPES} className="hidden" />
+
+            <button onClick={() => setShowTemplates(true)} className="absolute top-52 right-4 z-20 p-2 bg-white/70 dark:bg-slate-800/70 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-full shadow-lg hover:bg-slate-200 dark:hover:bg-slate-700" title="Templates">
+                <LayoutTemplate className="w-5 h-5" />
+            </button>
+
+            <button onClick={() => setShowHistory(true)} className="absolute top-64 right-4 z-20 p-2 bg-white/70 dark:bg-slate-800/70 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-full shadow-lg hover:bg-slate-200 dark:hover:bg-slate-700" title="Version History">
+                <HistoryIcon className="w-5 h-5" />
+            </button>
+
             <div className="absolute bottom-4 right-4 z-20 flex items-center gap-1 p-1.5 bg-white/30 dark:bg-slate-900/50 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl">
                 <button onClick={handleZoomOut} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Zoom Out"><ZoomOut className="w-5 h-5"/></button>
                 <button onClick={handleResetZoom} className="px-2 py-1.5 text-sm font-semibold rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Reset Zoom">{Math.round(zoom * 100)}%</button>
                 <button onClick={handleZoomIn} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Zoom In"><ZoomIn className="w-5 h-5"/></button>
+                <div className="w-px h-5 bg-slate-300 dark:bg-slate-600 mx-0.5"></div>
+                <button onClick={handleZoomToFit} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Zoom to Fit All (Shift+1)"><Maximize className="w-5 h-5"/></button>
+                <button onClick={handleZoomToSelection} disabled={selectedElementIds.length === 0} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent" title="Zoom to Selection (Shift+2)"><ScanSearch className="w-5 h-5"/></button>
+                <button onClick={handleResetZoom} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Reset View (Shift+0)"><RotateCcw className="w-5 h-5"/></button>
+                <button onClick={handleCycleGridMode} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title={`Grid: ${gridMode}`}><Grid3x3 className={`w-5 h-5 ${gridMode === 'none' ? 'opacity-40' : ''}`}/></button>
+                <button onClick={() => dispatch({ type: 'SET_SNAP_TO_GRID', payload: !isSnapToGridOn })} className={`p-1.5 rounded-md ${isSnapToGridOn ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`} title="Snap to Grid"><Magnet className="w-5 h-5"/></button>
+                <button onClick={() => setShowMinimap(!showMinimap)} className={`p-1.5 rounded-md ${showMinimap ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`} title="Toggle Minimap"><MapIcon className="w-5 h-5"/></button>
             </div>
+
+            {pages.length > 0 && canvasSize.width > 0 && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20">
+                    <PageNavigator pages={pages} currentIndex={getCurrentPageIndex()} onNavigate={handleNavigatePage} onToggleLock={handleTogglePageLock} />
+                </div>
+            )}
+
+            {showMinimap && canvasSize.width > 0 && (
+                <div className="absolute bottom-4 left-4 z-20 hidden md:block">
+                    <Minimap
+                        elements={elements}
+                        viewport={viewport}
+                        size={canvasSize}
+                        onNavigate={point => setViewport(centerOnPoint(viewport, point, canvasSize))}
+                    />
+                </div>
+            )}
             
             <AnimatePresence>
                 {showClearConfirm && (
                     <Modal onClose={() => setShowClearConfirm(false)} title="Clear Canvas">
-                        <p className="text-gray-600 dark:text-gray-300">Are you sure you want to clear the entire canvas for everyone? This action cannot be undone.</p>
+                        <p className="text-gray-600 dark:text-gray-300">Are you sure you want to clear the entire canvas for everyone? You can undo it afterwards with Undo.</p>
                         <div className="mt-6 flex justify-end space-x-4">
                             <button onClick={() => setShowClearConfirm(false)} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">Cancel</button>
                             <button onClick={confirmClearCanvas} className="px-4 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600">Clear Canvas</button>
@@ -633,14 +1775,43 @@ const Sketchboard: React.FC = () => {
                 )}
             </AnimatePresence>
 
+            <AnimatePresence>
+                {showExportDialog && (
+                    <ExportDialog hasSelection={selectedElementIds.length > 0} onExport={handleExport} onSaveBoard={handleSaveBoard} onClose={() => setShowExportDialog(false)} />
+                )}
+                {showTemplates && (
+                    <TemplateGallery
+                        userId={currentUser?.id}
+                        elementsToSave={selectedElementIds.length > 0 ? elements.filter(el => selectedElementIds.includes(el.id)) : elements}
+                        isSelection={selectedElementIds.length > 0}
+                        onInsert={handleInsertTemplate}
+                        onClose={() => setShowTemplates(false)}
+                    />
+                )}
+                {showHistory && (
+                    <HistoryDialog roomId={roomId} canRestore={state.isHost} onRestore={handleRestoreVersion} onClose={() => setShowHistory(false)} />
+                )}
+                {openedBoard && (
+                    <OpenBoardDialog loaded={openedBoard.loaded} error={openedBoard.error} onImport={handleImportBoard} onClose={() => setOpenedBoard(null)} />
+                )}
+            </AnimatePresence>
+
             <AnimatePresence>
                 {contextMenu.visible && contextMenu.elementId && elementForMenu && (
                      <ContextMenu
                         x={contextMenu.x}
                         y={contextMenu.y}
                         element={elementForMenu}
-                        onDelete={handleDeleteElement}
+                        selection={selectionForMenu}
+                        onDelete={handleDeleteElements}
                         onUpdateElement={handleUpdateElement}
+                        onUpdateElements={handleUpdateElements}
+                        onPreviewElements={(previews) => dispatch({ type: 'PREVIEW_STYLE', payload: previews })}
+                        onReorder={handleReorder}
+                        canAlign={alignUnitCount >= 2}
+                        canDistribute={alignUnitCount >= 3}
+                        onAlign={handleAlign}
+                        onDistribute={handleDistribute}
                         onClose={() => setContextMenu({ ...contextMenu, visible: false })}
                     />
                 )}
@@ -32,6 +32,7 @@ const StickyNote: React.FC<StickyNoteProps> = ({ data, onUpdate, isSelected }) =
         height: data.height,
         x: data.x,
         y: data.y,
+        rotate: ((data.rotation ?? 0) * 180) / Math.PI,
         position: 'absolute',
         top: 0,
         left: 0,
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import Modal from './Modal';
+import { BoardElement } from '../types';
+import { BUILT_IN_TEMPLATES, BoardTemplate, deletePersonalTemplate, fetchPersonalTemplates, savePersonalTemplate } from '../lib/templates';
+import { renderPreviewSvg } from '../lib/export';
+
+interface TemplateGalleryProps {
+  userId: string | undefined;
+  // What "save as template" saves: the selection when there is one, otherwise the whole board.
+  elementsToSave: BoardElement[];
+  isSelection: boolean;
+  onInsert: (template: BoardTemplate) => void;
+  onClose: () => void;
+}
+
+const TemplatePreview: React.FC<{ elements: BoardElement[] }> = ({ elements }) => {
+  const src = useMemo(() => {
+    const svg = renderPreviewSvg(elements);
+    return svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : null;
+  }, [elements]);
+  return (
+    <div className="w-24 h-16 flex-shrink-0 flex items-center justify-center rounded-md bg-white border border-slate-300 dark:border-slate-600 overflow-hidden">
+      {src && <img src={src} alt="" className="max-w-full max-h-full" />}
+    </div>
+  );
+};
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ userId, elementsToSave, isSelection, onInsert, onClose }) => {
+  const [personalTemplates, setPersonalTemplates] = useState<BoardTemplate[]>([]);
+  const [isLoadingPersonal, setIsLoadingPersonal] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPersonalTemplates = async () => {
+    if (!userId) return;
+    setIsLoadingPersonal(true);
+    try {
+      setPersonalTemplates(await fetchPersonalTemplates(userId));
+    } catch (err) {
+      console.error('Error loading templates:', err);
+      setError('Your saved templates could not be loaded.');
+    } finally {
+      setIsLoadingPersonal(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPersonalTemplates();
+  }, [userId]);
+
+  const handleSave = async () => {
+    if (!userId || !name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await savePersonalTemplate(userId, name.trim(), elementsToSave);
+      setName('');
+      await loadPersonalTemplates();
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError('The template could not be saved.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: BoardTemplate) => {
+    setError(null);
+    try {
+      await deletePersonalTemplate(template.id);
+      setPersonalTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (err) {
+      console.error('Error deleting template:', err);
+      setError('The template could not be deleted.');
+    }
+  };
+
+  const handleInsert = (template: BoardTemplate) => {
+    onInsert(template);
+    onClose();
+  };
+
+  const renderTemplate = (template: BoardTemplate) => (
+    <li key={template.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-200/80 dark:hover:bg-slate-700/80">
+      <button onClick={() => handleInsert(template)} className="flex flex-1 min-w-0 items-center gap-3 text-left" title={`Insert ${template.name}`}>
+        <TemplatePreview elements={template.elements} />
+        <div className="min-w-0">
+          <p className="font-semibold truncate">{template.name}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{template.description}</p>
+        </div>
+      </button>
+      {template.isPersonal && (
+        <button onClick={() => handleDelete(template)} className="p-1.5 rounded-md text-red-500 hover:bg-red-500/10" title="Delete Template">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <Modal onClose={onClose} title="Templates">
+      <div className="max-h-96 overflow-y-auto -mx-2 space-y-4">
+        <ul>{BUILT_IN_TEMPLATES.map(renderTemplate)}</ul>
+        <div>
+          <p className="px-2 mb-1 text-sm font-semibold text-gray-600 dark:text-gray-300">My templates</p>
+          {isLoadingPersonal ? (
+            <Loader2 className="mx-2 w-5 h-5 animate-spin" />
+          ) : personalTemplates.length > 0 ? (
+            <ul>{personalTemplates.map(renderTemplate)}</ul>
+          ) : (
+            <p className="px-2 text-sm text-gray-600 dark:text-gray-300">Templates you save appear here.</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-4 pt-4 border-t border-slate-300 dark:border-slate-700">
+        <p className="mb-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300">Save {isSelection ? 'selection' : 'board'} as template</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSave()}
+            placeholder="Template name"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white/50 dark:bg-slate-800/50 border border-slate-300 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim() || !userId || elementsToSave.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-60"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+        {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
+
+export default TemplateGallery;
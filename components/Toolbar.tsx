@@ -1,85 +1,239 @@
 import React, { useState, useContext, useRef } from 'react';
-import { Tool, ImageElement } from '../types';
+import { Tool, BoardElement, StrokeStyle, ShapeKind, EraserMode } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Pen, Circle, Square, Minus, ArrowRight, Type, Eraser, Image as ImageIcon, Trash2, Sticker, Hand, Undo, Redo, MousePointer2 } from 'lucide-react';
+import { Pen, Circle, Square, Minus, ArrowRight, Spline, Type, Eraser, Image as ImageIcon, Trash2, Sticker, Hand, Undo, Redo, MousePointer2, PaintBucket, Diamond, Triangle, SquareRoundCorner, Hexagon, Star, Cloud, MessageSquare, Highlighter, Pointer, Scissors, FileText } from 'lucide-react';
 import { RoomContext } from './RoomProvider';
-import { supabase } from '../lib/supabase';
-import { v4 as uuidv4 } from 'uuid';
+import PreviewInput from './PreviewInput';
+import { isFillable, isStroked } from '../lib/styles';
+import { SHAPE_KINDS } from '../lib/shapes';
+import { getBoundsCenter } from '../lib/geometry';
+import { getVisibleBounds } from '../lib/viewport';
+import { addImagesToBoard } from '../lib/images';
+import { importPdfToBoard } from '../lib/pdf';
 
 const tools = [
   { id: Tool.Select, icon: MousePointer2, label: 'Select (V)' },
   { id: Tool.Hand, icon: Hand, label: 'Pan (H)' },
   { id: Tool.Pen, icon: Pen, label: 'Pen (P)' },
+  { id: Tool.Highlighter, icon: Highlighter, label: 'Highlighter (I)' },
+  { id: Tool.Laser, icon: Pointer, label: 'Laser Pointer (Q)' },
   { id: Tool.Eraser, icon: Eraser, label: 'Eraser (E)' },
   { id: Tool.StickyNote, icon: Sticker, label: 'Sticky Note (S)' },
   { id: Tool.Rectangle, icon: Square, label: 'Rectangle (R)' },
   { id: Tool.Circle, icon: Circle, label: 'Circle (C)' },
+  { id: Tool.Shape, icon: Diamond, label: 'Shapes (D)' },
+  { id: Tool.Line, icon: Minus, label: 'Line (L)' },
+  { id: Tool.Arrow, icon: ArrowRight, label: 'Arrow (A)' },
+  { id: Tool.Connector, icon: Spline, label: 'Connector (K)' },
   { id: Tool.Text, icon: Type, label: 'Text (T)' },
 ];
 
+const shapeIcons: Record<ShapeKind, React.ElementType> = {
+  'diamond': Diamond,
+  'triangle': Triangle,
+  'rounded-rectangle': SquareRoundCorner,
+  'hexagon': Hexagon,
+  'star': Star,
+  'cloud': Cloud,
+  'callout': MessageSquare,
+};
+
+const eraserModes: { id: EraserMode; label: string; icon: React.ElementType }[] = [
+  { id: 'object', label: 'Erase whole objects', icon: Eraser },
+  { id: 'stroke', label: 'Cut pen strokes', icon: Scissors },
+];
+
 const colors = ['#FFFFFF', '#000000', '#ef4444', '#f97316', '#eab308', '#84cc16', '#3b82f6', '#d946ef'];
+const fillColors = ['transparent', '#FFFFFF', '#000000', '#fecaca', '#fed7aa', '#fef08a', '#d9f99d', '#bfdbfe', '#f5d0fe'];
+const strokeStyles: { id: StrokeStyle; label: string; dash?: string }[] = [
+  { id: 'solid', label: 'Solid' },
+  { id: 'dashed', label: 'Dashed', dash: '6 4' },
+  { id: 'dotted', label: 'Dotted', dash: '1 4' },
+];
 
 const Toolbar: React.FC = () => {
   const { state, dispatch } = useContext(RoomContext);
-  const { activeTool, color, strokeWidth } = state;
+  const { activeTool, color, strokeWidth, fillColor, opacity, strokeStyle, shapeKind, eraserMode, elements, selectedElementIds } = state;
 
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [showFillPicker, setShowFillPicker] = useState(false);
+  const [showShapePicker, setShowShapePicker] = useState(false);
+  const [showEraserModes, setShowEraserModes] = useState(false);
   const [showStrokeWidth, setShowStrokeWidth] = useState(false);
   const imageInputRef = useRef<HTMLInputElement>(null);
+  const pdfInputRef = useRef<HTMLInputElement>(null);
 
-  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const canRecolor = (el: BoardElement) => el.type !== 'image' && el.type !== 'note' && el.type !== 'page';
 
-    const fileName = `${uuidv4()}-${file.name}`;
-    const { data, error } = await supabase.storage
-      .from('meetboard_images')
-      .upload(fileName, file);
+  // Style changes update the default for new elements and restyle the selection as one change.
+  const restyleSelection = (canRestyle: (el: BoardElement) => boolean, changes: Partial<BoardElement>) => {
+    const restyled = elements.filter(el => selectedElementIds.includes(el.id) && canRestyle(el));
+    if (restyled.length > 0) {
+      dispatch({ type: 'UPDATE_ELEMENTS', payload: restyled.map(el => ({ ...el, ...changes }) as BoardElement) });
+    }
+    if (state.stylePreview) dispatch({ type: 'PREVIEW_STYLE', payload: null });
+  };
 
-    if (error) {
-      console.error('Error uploading image:', error);
-      // TODO: Show a proper error message to the user
-      return;
+  // Shows the selection restyled without changing the board, while a color or opacity is still being picked.
+  const previewRestyle = (canRestyle: (el: BoardElement) => boolean, changes: Partial<BoardElement>) => {
+    const restyled = elements.filter(el => selectedElementIds.includes(el.id) && canRestyle(el));
+    if (restyled.length > 0) {
+      dispatch({ type: 'PREVIEW_STYLE', payload: restyled.map(el => ({ ...el, ...changes }) as BoardElement) });
     }
+  };
+
+  const handleColorChange = (newColor: string) => {
+    dispatch({ type: 'SET_COLOR', payload: newColor });
+    restyleSelection(canRecolor, { color: newColor });
+  };
+
+  const handleColorPreview = (newColor: string) => {
+    dispatch({ type: 'SET_COLOR', payload: newColor });
+    previewRestyle(canRecolor, { color: newColor });
+  };
+
+  const handleFillColorChange = (newFillColor: string) => {
+    dispatch({ type: 'SET_FILL_COLOR', payload: newFillColor });
+    restyleSelection(isFillable, { fillColor: newFillColor });
+  };
+
+  const handleFillColorPreview = (newFillColor: string) => {
+    dispatch({ type: 'SET_FILL_COLOR', payload: newFillColor });
+    previewRestyle(isFillable, { fillColor: newFillColor });
+  };
+
+  const handleOpacityChange = (newOpacity: number) => {
+    dispatch({ type: 'SET_OPACITY', payload: newOpacity });
+    restyleSelection(isStroked, { opacity: newOpacity });
+  };
+
+  const handleOpacityPreview = (newOpacity: number) => {
+    dispatch({ type: 'SET_OPACITY', payload: newOpacity });
+    previewRestyle(isStroked, { opacity: newOpacity });
+  };
+
+  const handleStrokeStyleChange = (newStrokeStyle: StrokeStyle) => {
+    dispatch({ type: 'SET_STROKE_STYLE', payload: newStrokeStyle });
+    restyleSelection(isStroked, { strokeStyle: newStrokeStyle });
+  };
+
+  // The board fills most of the window, so its middle is a good stand-in for the visible center.
+  const getVisibleCenter = () => {
+    return getBoundsCenter(getVisibleBounds(state.viewport, { width: window.innerWidth, height: window.innerHeight }));
+  };
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
+
+    addImagesToBoard(files, getVisibleCenter(), dispatch);
 
-    const { data: { publicUrl } } = supabase.storage
-      .from('meetboard_images')
-      .getPublicUrl(data.path);
-
-    // Get image dimensions to place it on the canvas with its original size
-    const img = new Image();
-    img.onload = () => {
-        const newImageElement: ImageElement = {
-            id: uuidv4(),
-            type: 'image',
-            src: publicUrl,
-            x: 200, // A default position, user can move it
-            y: 200,
-            width: img.width > 500 ? 500 : img.width, // Set a max width to avoid huge images
-            height: img.width > 500 ? (500/img.width) * img.height : img.height
-        };
-        dispatch({ type: 'ADD_ELEMENT', payload: { element: newImageElement, select: true } });
-    };
-    img.src = URL.createObjectURL(file);
-    
     // Reset file input so the same file can be uploaded again
     if(imageInputRef.current) {
         imageInputRef.current.value = '';
     }
   };
 
+  // Pages stack downwards from just below the top of the view.
+  const handlePdfImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const visible = getVisibleBounds(state.viewport, { width: window.innerWidth, height: window.innerHeight });
+    importPdfToBoard(file, { x: visible.x + visible.width / 2, y: visible.y + 40 / state.viewport.zoom }, dispatch);
+
+    if(pdfInputRef.current) {
+        pdfInputRef.current.value = '';
+    }
+  };
+
+  const ActiveShapeIcon = shapeIcons[shapeKind];
+
   return (
     <div className="flex items-center gap-1 md:gap-2 p-1 md:p-2 bg-white/30 dark:bg-slate-900/50 backdrop-blur-lg border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl overflow-x-auto">
-      {tools.map(tool => (
-        <button
-          key={tool.id}
-          title={tool.label}
-          onClick={() => dispatch({ type: 'SET_TOOL', payload: tool.id })}
-          className={`p-1.5 md:p-2 rounded-md flex-shrink-0 ${activeTool === tool.id ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
-        >
-          <tool.icon className="w-4 h-4 md:w-5 md:h-5" />
-        </button>
-      ))}
+      {tools.map(tool => {
+        if (tool.id === Tool.Shape) {
+          return (
+            <div key={tool.id} className="relative flex-shrink-0">
+              <button
+                title={tool.label}
+                onClick={() => setShowShapePicker(!showShapePicker)}
+                className={`p-1.5 md:p-2 rounded-md ${activeTool === tool.id ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+              >
+                <ActiveShapeIcon className="w-4 h-4 md:w-5 md:h-5" />
+              </button>
+              <AnimatePresence>
+                {showShapePicker && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    className="absolute bottom-12 left-0 z-10 p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-md shadow-lg grid grid-cols-4 gap-1 w-40"
+                  >
+                    {SHAPE_KINDS.map(kind => {
+                      const Icon = shapeIcons[kind.id];
+                      return (
+                        <button
+                          key={kind.id}
+                          title={kind.label}
+                          onClick={() => { dispatch({ type: 'SET_SHAPE_KIND', payload: kind.id }); setShowShapePicker(false); }}
+                          className={`p-1.5 rounded-md ${activeTool === Tool.Shape && shapeKind === kind.id ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </button>
+                      );
+                    })}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
+          );
+        }
+        if (tool.id === Tool.Eraser) {
+          return (
+            <div key={tool.id} className="relative flex-shrink-0">
+              <button
+                title={tool.label}
+                onClick={() => { dispatch({ type: 'SET_TOOL', payload: tool.id }); setShowEraserModes(!showEraserModes); }}
+                className={`p-1.5 md:p-2 rounded-md ${activeTool === tool.id ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+              >
+                <tool.icon className="w-4 h-4 md:w-5 md:h-5" />
+              </button>
+              <AnimatePresence>
+                {showEraserModes && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    className="absolute bottom-12 left-0 z-10 p-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-md shadow-lg w-44"
+                  >
+                    {eraserModes.map(mode => (
+                      <button
+                        key={mode.id}
+                        onClick={() => { dispatch({ type: 'SET_ERASER_MODE', payload: mode.id }); setShowEraserModes(false); }}
+                        className={`w-full flex items-center gap-2 px-2 py-1.5 text-sm rounded-md ${eraserMode === mode.id ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                      >
+                        <mode.icon className="w-4 h-4" />
+                        <span>{mode.label}</span>
+                      </button>
+                    ))}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
+          );
+        }
+        return (
+          <button
+            key={tool.id}
+            title={tool.label}
+            onClick={() => dispatch({ type: 'SET_TOOL', payload: tool.id })}
+            className={`p-1.5 md:p-2 rounded-md flex-shrink-0 ${activeTool === tool.id ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+          >
+            <tool.icon className="w-4 h-4 md:w-5 md:h-5" />
+          </button>
+        );
+      })}
       <div className="w-px h-6 md:h-8 bg-slate-300 dark:bg-slate-600 mx-1 md:mx-2"></div>
       
       {/* Color Picker */}
@@ -101,12 +255,46 @@ const Toolbar: React.FC = () => {
               {colors.map(c => (
                 <button
                   key={c}
-                  onClick={() => { dispatch({ type: 'SET_COLOR', payload: c }); setShowColorPicker(false); }}
+                  onClick={() => { handleColorChange(c); setShowColorPicker(false); }}
                   className={`w-6 h-6 rounded-full border border-slate-300 dark:border-slate-600 ${color === c ? 'ring-2 ring-offset-2 ring-primary dark:ring-offset-slate-800' : ''}`}
                   style={{ backgroundColor: c }}
                 />
               ))}
-              <input type="color" value={color} onChange={(e) => dispatch({ type: 'SET_COLOR', payload: e.target.value })} className="w-6 h-6 p-0 border-none bg-transparent cursor-pointer" />
+              <PreviewInput type="color" value={color} onPreview={handleColorPreview} onCommit={handleColorChange} className="w-6 h-6 p-0 border-none bg-transparent cursor-pointer" />
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {/* Fill Color */}
+      <div className="relative">
+        <button
+          onClick={() => setShowFillPicker(!showFillPicker)}
+          className="p-1.5 md:p-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700"
+          title="Fill Color"
+        >
+          <PaintBucket className="w-4 h-4 md:w-5 md:h-5" style={{ color: fillColor === 'transparent' ? undefined : fillColor }} />
+        </button>
+        <AnimatePresence>
+          {showFillPicker && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className="absolute bottom-12 left-0 z-10 p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-md shadow-lg flex flex-wrap gap-2 w-40"
+            >
+              {fillColors.map(c => (
+                <button
+                  key={c}
+                  onClick={() => { handleFillColorChange(c); setShowFillPicker(false); }}
+                  className={`relative w-6 h-6 rounded-full border border-slate-300 dark:border-slate-600 overflow-hidden ${fillColor === c ? 'ring-2 ring-offset-2 ring-primary dark:ring-offset-slate-800' : ''}`}
+                  style={{ backgroundColor: c }}
+                  title={c === 'transparent' ? 'No fill' : c}
+                >
+                  {c === 'transparent' && <span className="absolute left-1/2 top-0 h-full w-px bg-red-500 rotate-45" />}
+                </button>
+              ))}
+              <PreviewInput type="color" value={fillColor === 'transparent' ? '#FFFFFF' : fillColor} onPreview={handleFillColorPreview} onCommit={handleFillColorChange} className="w-6 h-6 p-0 border-none bg-transparent cursor-pointer" />
             </motion.div>
           )}
         </AnimatePresence>
@@ -117,7 +305,7 @@ const Toolbar: React.FC = () => {
         <button 
             onClick={() => setShowStrokeWidth(!showStrokeWidth)} 
             className="p-1.5 md:p-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700"
-            title="Adjust Stroke Width"
+            title="Stroke Width, Style and Opacity"
         >
             <div className="flex items-center justify-center w-4 h-4 md:w-5 md:h-5">
                 <div className="rounded-full bg-current" style={{width: strokeWidth/1.5, height: strokeWidth/1.5, maxWidth: '20px', maxHeight: '20px'}}></div>
@@ -129,7 +317,7 @@ const Toolbar: React.FC = () => {
                     initial={{ opacity: 0, y: -10 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, y: -10 }}
-                    className="absolute bottom-12 left-0 z-10 p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-md shadow-lg"
+                    className="absolute bottom-12 left-0 z-10 p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-md shadow-lg space-y-2"
                  >
                     <input 
                         type="range" 
@@ -139,6 +327,30 @@ const Toolbar: React.FC = () => {
                         onChange={(e) => dispatch({ type: 'SET_STROKE_WIDTH', payload: parseInt(e.target.value) })}
                         className="w-24"
                     />
+                    <div className="flex items-center gap-1">
+                        {strokeStyles.map(style => (
+                            <button
+                                key={style.id}
+                                onClick={() => handleStrokeStyleChange(style.id)}
+                                className={`p-1 rounded ${strokeStyle === style.id ? 'bg-primary text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                                title={style.label}
+                            >
+                                <svg width="20" height="8" viewBox="0 0 20 8"><line x1="1" y1="4" x2="19" y2="4" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeDasharray={style.dash} /></svg>
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300" title="Opacity">
+                        <span>{Math.round(opacity * 100)}%</span>
+                        <PreviewInput
+                            type="range"
+                            min="10"
+                            max="100"
+                            value={Math.round(opacity * 100)}
+                            onPreview={(value) => handleOpacityPreview(parseInt(value) / 100)}
+                            onCommit={(value) => handleOpacityChange(parseInt(value) / 100)}
+                            className="w-16"
+                        />
+                    </label>
                  </motion.div>
             )}
         </AnimatePresence>
@@ -149,12 +361,23 @@ const Toolbar: React.FC = () => {
            type="file"
            ref={imageInputRef}
            onChange={handleImageUpload}
-           accept="image/png, image/jpeg, image/gif"
+           accept="image/png, image/jpeg, image/gif, image/webp"
+           multiple
            className="hidden"
         />
        <button onClick={() => imageInputRef.current?.click()} className="p-1.5 md:p-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Upload Image">
            <ImageIcon className="w-4 h-4 md:w-5 md:h-5"/>
        </button>
+       <input
+           type="file"
+           ref={pdfInputRef}
+           onChange={handlePdfImport}
+           accept="application/pdf"
+           className="hidden"
+        />
+       <button onClick={() => pdfInputRef.current?.click()} className="p-1.5 md:p-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Import PDF">
+           <FileText className="w-4 h-4 md:w-5 md:h-5"/>
+       </button>
        <div className="w-px h-6 md:h-8 bg-slate-300 dark:bg-slate-600 mx-1 md:mx-2"></div>
        <button onClick={() => dispatch({ type: 'UNDO' })} className="p-1.5 md:p-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Undo (Ctrl+Z)"><Undo className="w-4 h-4 md:w-5 md:h-5"/></button>
        <button onClick={() => dispatch({ type: 'REDO' })} className="p-1.5 md:p-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700" title="Redo (Ctrl+Y)"><Redo className="w-4 h-4 md:w-5 md:h-5"/></button>
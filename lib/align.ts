@@ -0,0 +1,76 @@
+import { BoardElement } from '../types';
+import { Bounds, getCommonBounds, translateElement } from './geometry';
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type Distribution = 'horizontal' | 'vertical';
+
+interface Unit {
+  elements: BoardElement[];
+  bounds: Bounds;
+}
+
+// Elements that share a key (e.g. a group) move together as one unit.
+const getUnits = (elements: BoardElement[], getUnitKey: (el: BoardElement) => string): Unit[] => {
+  const byKey = new Map<string, BoardElement[]>();
+  elements.forEach(el => {
+    const key = getUnitKey(el);
+    byKey.set(key, [...(byKey.get(key) ?? []), el]);
+  });
+  return [...byKey.values()].map(members => ({ elements: members, bounds: getCommonBounds(members)! }));
+};
+
+const moveUnit = (unit: Unit, dx: number, dy: number): BoardElement[] => {
+  return unit.elements.map(el => translateElement(el, dx, dy));
+};
+
+/** Lines the selection up against the matching edge or center of its common bounds. */
+export const alignElements = (elements: BoardElement[], alignment: Alignment, getUnitKey: (el: BoardElement) => string): BoardElement[] => {
+  const target = getCommonBounds(elements);
+  if (!target) return [];
+  return getUnits(elements, getUnitKey).flatMap(unit => {
+    const { bounds } = unit;
+    switch (alignment) {
+      case 'left': return moveUnit(unit, target.x - bounds.x, 0);
+      case 'center': return moveUnit(unit, target.x + target.width / 2 - (bounds.x + bounds.width / 2), 0);
+      case 'right': return moveUnit(unit, target.x + target.width - (bounds.x + bounds.width), 0);
+      case 'top': return moveUnit(unit, 0, target.y - bounds.y);
+      case 'middle': return moveUnit(unit, 0, target.y + target.height / 2 - (bounds.y + bounds.height / 2));
+      case 'bottom': return moveUnit(unit, 0, target.y + target.height - (bounds.y + bounds.height));
+    }
+  });
+};
+
+/**
+ * Spaces the selection so the gaps between neighbours are equal. The unit that starts first and the
+ * one that ends last stay put, so the selection keeps its extent; the others are spread between them
+ * in the order they start.
+ */
+export const distributeElements = (elements: BoardElement[], distribution: Distribution, getUnitKey: (el: BoardElement) => string): BoardElement[] => {
+  const units = getUnits(elements, getUnitKey);
+  if (units.length < 3) return [];
+  const horizontal = distribution === 'horizontal';
+  const start = (b: Bounds) => horizontal ? b.x : b.y;
+  const size = (b: Bounds) => horizontal ? b.width : b.height;
+  const end = (b: Bounds) => start(b) + size(b);
+  const sorted = [...units].sort((a, b) => start(a.bounds) - start(b.bounds));
+  const first = sorted[0];
+  const last = sorted.slice(1).reduce((latest, unit) => end(unit.bounds) >= end(latest.bounds) ? unit : latest);
+  const middle = sorted.filter(unit => unit !== first && unit !== last);
+  const span = end(last.bounds) - start(first.bounds);
+  const gap = (span - units.reduce((sum, unit) => sum + size(unit.bounds), 0)) / (units.length - 1);
+  let cursor = end(first.bounds) + gap;
+  return [
+    ...first.elements,
+    ...middle.flatMap(unit => {
+      const offset = cursor - start(unit.bounds);
+      cursor += size(unit.bounds) + gap;
+      return horizontal ? moveUnit(unit, offset, 0) : moveUnit(unit, 0, offset);
+    }),
+    ...last.elements,
+  ];
+};
+
+/** How many independently movable units a selection has. */
+export const countUnits = (elements: BoardElement[], getUnitKey: (el: BoardElement) => string): number => {
+  return new Set(elements.map(getUnitKey)).size;
+};
@@ -0,0 +1,91 @@
+import { BoardElement } from '../types';
+import { CrdtDocument, CrdtOperation, RecordPatch, applyOperation, assignPositions, createOperation, diffFields, isCrdtOperation, materializeDocument } from './crdt';
+import { detachConnectors, rerouteConnectors, settleConnectors } from './connectors';
+import { reorderElements } from './ordering';
+import { replaceElements } from './eraser';
+import { applyElementChanges } from './history';
+
+// Operations made while replaying rows saved before the board was a CRDT. Every client replays
+// those rows the same way, so they all produce the same operations.
+const LEGACY_REPLICA = 'legacy';
+
+// A saved board event: the operation it made, or, for rows saved before that, the action's payload.
+export interface BoardEvent {
+  event_type: string;
+  data: any;
+}
+
+const toFields = ({ id, ...fields }: BoardElement): Record<string, any> => fields;
+
+/** The board's elements, bottom to top, with connectors routed from the merged positions of their ends. */
+export const getBoardElements = (doc: CrdtDocument): BoardElement[] => settleConnectors(materializeDocument(doc) as BoardElement[]);
+
+/**
+ * The operation that turns the board from `previous` (the elements of `doc`) into `next`. Only the
+ * fields that changed are written, so it merges with others' concurrent edits to other fields of
+ * the same element. Returns null when nothing changed.
+ */
+export const createBoardOperation = (doc: CrdtDocument, previous: BoardElement[], next: BoardElement[], replica: string): CrdtOperation | null => {
+  const previousById = new Map(previous.map(el => [el.id, el]));
+  const nextIds = new Set(next.map(el => el.id));
+  const positions = new Map<string, number>();
+  next.forEach(el => {
+    const position = doc.records[el.id]?.position?.value;
+    if (previousById.has(el.id) && position !== undefined) positions.set(el.id, position);
+  });
+  const newPositions = assignPositions(next.map(el => el.id), positions);
+
+  const patches: RecordPatch[] = [];
+  next.forEach(el => {
+    const before = previousById.get(el.id);
+    const position = newPositions.get(el.id);
+    if (!before) {
+      // Also brings back an element deleted earlier, with the fields it is being restored with.
+      const removed = Object.keys(doc.records[el.id]?.fields ?? {}).filter(key => key !== 'id' && !(key in el));
+      patches.push({ id: el.id, set: toFields(el), ...(removed.length > 0 ? { unset: removed } : {}), deleted: false, position });
+      return;
+    }
+    const fields = before === el ? null : diffFields(toFields(before), toFields(el));
+    if (!fields && position === undefined) return;
+    patches.push({ id: el.id, ...fields, ...(position !== undefined ? { position } : {}) });
+  });
+  previous.filter(el => !nextIds.has(el.id)).forEach(el => patches.push({ id: el.id, deleted: true }));
+
+  return patches.length > 0 ? createOperation(doc, replica, patches) : null;
+};
+
+// How rows saved before the board was a CRDT changed the elements.
+const applyLegacyEvent = (elements: BoardElement[], event: BoardEvent): BoardElement[] => {
+  switch (event.event_type) {
+    case 'ADD_ELEMENT': return [...elements, event.data.element];
+    case 'ADD_ELEMENTS': return [...elements, ...event.data.elements];
+    case 'UPDATE_ELEMENT': return rerouteConnectors(elements.map(el => el.id === event.data.id ? event.data : el), [event.data.id]);
+    case 'DELETE_ELEMENT': return detachConnectors(elements.filter(el => el.id !== event.data.id), [event.data.id]);
+    case 'UPDATE_ELEMENTS': {
+      const updates = new Map<string, BoardElement>(event.data.map((el: BoardElement) => [el.id, el]));
+      return rerouteConnectors(elements.map(el => updates.get(el.id) ?? el), [...updates.keys()]);
+    }
+    case 'DELETE_ELEMENTS': return detachConnectors(elements.filter(el => !event.data.ids.includes(el.id)), event.data.ids);
+    case 'REORDER_ELEMENTS': return reorderElements(elements, event.data.ids, event.data.direction);
+    case 'REPLACE_ELEMENTS': return replaceElements(elements, event.data.replacements);
+    case 'CLEAR_CANVAS': return [];
+    // Sent when a saved board replaces the room's contents.
+    case 'SET_INITIAL_ELEMENTS': return event.data;
+    // Undo and redo carry the changes they made. Rows saved before that have empty data and are skipped.
+    case 'UNDO':
+    case 'REDO': return event.data.upserts ? applyElementChanges(elements, event.data) : elements;
+    default: return elements;
+  }
+};
+
+/**
+ * Merges a saved or received event into the board. Operations merge in any order; legacy rows are
+ * turned into operations against the board as it stands, so they still depend on being replayed in
+ * the order they were saved.
+ */
+export const applyBoardEvent = (doc: CrdtDocument, event: BoardEvent): CrdtDocument => {
+  if (isCrdtOperation(event.data)) return applyOperation(doc, event.data);
+  const elements = getBoardElements(doc);
+  const operation = createBoardOperation(doc, elements, applyLegacyEvent(elements, event), LEGACY_REPLICA);
+  return operation ? applyOperation(doc, operation) : doc;
+};
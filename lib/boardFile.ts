@@ -0,0 +1,208 @@
+import { BoardElement, Viewport } from '../types';
+import { SHAPE_KINDS } from './shapes';
+import { DEFAULT_VIEWPORT } from './viewport';
+import { fetchImageDataUrls, uploadImage } from './images';
+import { htmlToText, textToHtml } from './clipboard';
+
+// Saved boards: every element, the view they were saved with, and optionally the image data
+// itself so the file still opens after the original uploads are gone.
+export const BOARD_FILE_TYPE = 'meetboard';
+export const BOARD_FILE_VERSION = 1;
+export const BOARD_FILE_EXTENSION = '.meetboard.json';
+
+export interface BoardFileMetadata {
+  name: string;
+  exportedBy?: string;
+}
+
+export interface BoardFile {
+  type: typeof BOARD_FILE_TYPE;
+  version: number;
+  exportedAt: string;
+  metadata: BoardFileMetadata;
+  viewport: Viewport;
+  elements: BoardElement[];
+  // Data URLs keyed by the image `src` they stand in for. Empty when images are only referenced.
+  assets: Record<string, string>;
+}
+
+export class BoardFileError extends Error {}
+
+export interface LoadedBoardFile {
+  file: BoardFile;
+  // Elements that failed validation and were left out.
+  skipped: number;
+  // Features of a file from another app that have no equivalent here, e.g. "Frames (2)".
+  dropped: string[];
+}
+
+// Tallies the features a conversion had to leave out or approximate, keyed by description.
+export type DroppedFeatures = Record<string, number>;
+
+export const noteDropped = (dropped: DroppedFeatures, feature: string, count = 1) => {
+  dropped[feature] = (dropped[feature] ?? 0) + count;
+};
+
+export const describeDropped = (dropped: DroppedFeatures): string[] => {
+  return Object.entries(dropped).map(([feature, count]) => count > 1 ? `${feature} (${count})` : feature);
+};
+
+/**
+ * Upgrades documents one version at a time; each entry takes a document of its key's version to
+ * the next. Version 0 is a bare array of elements, the same shape as the board's own state.
+ */
+const migrations: Record<number, (doc: any) => any> = {
+  0: (elements: any[]) => ({
+    type: BOARD_FILE_TYPE,
+    version: 1,
+    exportedAt: new Date(0).toISOString(),
+    metadata: { name: 'Imported board' },
+    viewport: DEFAULT_VIEWPORT,
+    elements,
+    assets: {},
+  }),
+};
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: any): value is string => typeof value === 'string';
+const isPoint = (value: any) => !!value && isNumber(value.x) && isNumber(value.y);
+const hasBox = (el: any) => isNumber(el.x) && isNumber(el.y) && isNumber(el.width) && isNumber(el.height);
+const hasStroke = (el: any) => isString(el.color) && isNumber(el.strokeWidth);
+const isEndpoint = (value: any) => !!value && isPoint(value.point) && (value.elementId === null || isString(value.elementId));
+
+// Keyed by element type so a new variant without a validator fails to compile.
+const validators: Record<BoardElement['type'], (el: any) => boolean> = {
+  path: el => hasStroke(el) && Array.isArray(el.points) && el.points.length > 0 && el.points.every(isPoint),
+  note: el => hasBox(el) && isString(el.text) && isString(el.color),
+  image: el => hasBox(el) && isString(el.src),
+  page: el => hasBox(el) && isString(el.src) && isNumber(el.pageNumber),
+  rectangle: el => hasBox(el) && hasStroke(el),
+  circle: el => hasBox(el) && hasStroke(el),
+  shape: el => hasBox(el) && hasStroke(el) && SHAPE_KINDS.some(kind => kind.id === el.shape),
+  line: el => hasStroke(el) && isPoint(el.start) && isPoint(el.end),
+  arrow: el => hasStroke(el) && isPoint(el.start) && isPoint(el.end),
+  connector: el => hasStroke(el) && isEndpoint(el.start) && isEndpoint(el.end) && Array.isArray(el.points) && el.points.every(isPoint),
+  text: el => hasBox(el) && isString(el.text) && isString(el.color) && isNumber(el.fontSize),
+};
+
+// Fills in fields that elements from older boards may be missing.
+const withDefaults = (el: any): BoardElement => {
+  switch (el.type) {
+    case 'arrow':
+      return { arrowhead: 'filled', ...el };
+    case 'connector':
+      return { routing: 'straight', arrowhead: 'filled', ...el };
+    case 'shape':
+      return { label: '', ...el };
+    case 'page':
+      return { documentName: 'Document', locked: true, ...el };
+    case 'text':
+      return { fontFamily: 'Poppins', textAlign: 'left', ...el };
+    default:
+      return el;
+  }
+};
+
+const isValidElement = (el: any): el is BoardElement => {
+  return !!el && isString(el.id) && Object.hasOwn(validators, el.type) && validators[el.type as BoardElement['type']](el);
+};
+
+/**
+ * The usable elements among `elements` from outside the app, with missing fields filled in. Text
+ * elements render their content as HTML, so it is reduced to plain text and escaped again.
+ */
+export const validateElements = (elements: any[]): BoardElement[] => {
+  return elements
+    .map(el => el && withDefaults(el))
+    .filter(isValidElement)
+    .map(el => el.type === 'text' ? { ...el, text: textToHtml(htmlToText(el.text)) } : el);
+};
+
+/** Parses, migrates and validates a saved board. Throws BoardFileError when the file can't be used. */
+export const parseBoardFile = (text: string): LoadedBoardFile => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new BoardFileError('This file is not valid JSON.');
+  }
+  if (Array.isArray(doc)) doc = migrations[0](doc);
+  if (!doc || doc.type !== BOARD_FILE_TYPE || !isNumber(doc.version)) {
+    throw new BoardFileError('This is not a board file.');
+  }
+  if (doc.version > BOARD_FILE_VERSION) {
+    throw new BoardFileError('This board was saved by a newer version of the app.');
+  }
+  while (doc.version < BOARD_FILE_VERSION) {
+    const migrate = migrations[doc.version];
+    if (!migrate) throw new BoardFileError(`Board files of version ${doc.version} are not supported.`);
+    doc = migrate(doc);
+  }
+  if (!Array.isArray(doc.elements)) {
+    throw new BoardFileError('This board file has no elements.');
+  }
+
+  const elements = validateElements(doc.elements);
+  const viewport = doc.viewport && isPoint(doc.viewport.pan) && isNumber(doc.viewport.zoom) ? doc.viewport : DEFAULT_VIEWPORT;
+  const assets = doc.assets && typeof doc.assets === 'object' ? doc.assets : {};
+  return {
+    file: {
+      type: BOARD_FILE_TYPE,
+      version: BOARD_FILE_VERSION,
+      exportedAt: isString(doc.exportedAt) ? doc.exportedAt : new Date(0).toISOString(),
+      metadata: { name: isString(doc.metadata?.name) ? doc.metadata.name : 'Imported board', exportedBy: doc.metadata?.exportedBy },
+      viewport,
+      elements,
+      assets,
+    },
+    skipped: doc.elements.length - elements.length,
+    dropped: [],
+  };
+};
+
+const getImageSources = (elements: BoardElement[]) => {
+  return elements.flatMap(el => el.type === 'image' || el.type === 'page' ? [el.src] : []);
+};
+
+/** Builds a board file, downloading images into it when `embedImages` is set. */
+export const createBoardFile = async (
+  elements: BoardElement[],
+  viewport: Viewport,
+  metadata: BoardFileMetadata,
+  embedImages: boolean,
+): Promise<BoardFile> => {
+  const assets = embedImages ? Object.fromEntries(await fetchImageDataUrls(getImageSources(elements))) : {};
+  return {
+    type: BOARD_FILE_TYPE,
+    version: BOARD_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    metadata,
+    viewport,
+    elements,
+    assets,
+  };
+};
+
+/**
+ * Uploads a file's embedded images to room storage and points the elements at the uploads, so the
+ * events sent to other participants carry URLs rather than image data. Images that fail to upload
+ * keep their original reference if it is a URL; files from other apps refer to their images by id,
+ * and those images are left out.
+ */
+export const uploadEmbeddedImages = async (file: BoardFile): Promise<BoardElement[]> => {
+  const uploaded = new Map<string, string>();
+  await Promise.all(Object.entries(file.assets).map(async ([src, dataUrl]) => {
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      const extension = blob.type.split('/')[1] ?? 'png';
+      uploaded.set(src, await uploadImage(blob, `imported.${extension}`));
+    } catch (error) {
+      console.error('Error uploading embedded image:', error);
+    }
+  }));
+  return file.elements.flatMap((el): BoardElement[] => {
+    if (el.type !== 'image' && el.type !== 'page') return [el];
+    if (uploaded.has(el.src)) return [{ ...el, src: uploaded.get(el.src)! }];
+    return /^(https?|data):/.test(el.src) ? [el] : [];
+  });
+};
@@ -0,0 +1,85 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardElement, ConnectorEndpoint, Point } from '../types';
+import { getBoundsCenter, getCommonBounds, translateElement } from './geometry';
+import { validateElements } from './boardFile';
+
+// Custom clipboard type for copied board elements. The same JSON is also written as plain text
+// so it survives browsers that drop custom types between tabs.
+export const BOARD_CLIPBOARD_MIME = 'application/x-meetboard-elements+json';
+const BOARD_CLIPBOARD_VERSION = 1;
+
+// How far a duplicate lands from its original.
+export const DUPLICATE_OFFSET = 20;
+
+interface BoardClipboardData {
+  version: number;
+  elements: BoardElement[];
+}
+
+export const serializeElements = (elements: BoardElement[]): string => {
+  const data: BoardClipboardData = { version: BOARD_CLIPBOARD_VERSION, elements };
+  return JSON.stringify(data);
+};
+
+/**
+ * The elements in copied clipboard text, or null if the text isn't a board copy. Anyone can put
+ * such text on the clipboard, so malformed elements are dropped and text is reduced to plain text
+ * before it's rendered as HTML.
+ */
+export const parseClipboardElements = (text: string): BoardElement[] | null => {
+  if (!text) return null;
+  try {
+    const data = JSON.parse(text) as BoardClipboardData;
+    if (data?.version !== BOARD_CLIPBOARD_VERSION || !Array.isArray(data.elements)) return null;
+    const elements = validateElements(data.elements);
+    return elements.length > 0 ? elements : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Copies of `elements` with fresh ids, moved by (dx, dy). Groups and connector bindings inside the
+ * copy point at the copies; bindings to elements that weren't copied become free ends.
+ */
+export const cloneElements = (elements: BoardElement[], dx: number, dy: number): BoardElement[] => {
+  const ids = new Map<string, string>(elements.map(el => [el.id, uuidv4()]));
+  const groupIds = new Map<string, string>();
+  const remapGroup = (groupId: string) => {
+    if (!groupIds.has(groupId)) groupIds.set(groupId, uuidv4());
+    return groupIds.get(groupId)!;
+  };
+  const move = (p: Point) => ({ ...p, x: p.x + dx, y: p.y + dy });
+  const remapEnd = (end: ConnectorEndpoint): ConnectorEndpoint => ({
+    elementId: end.elementId ? ids.get(end.elementId) ?? null : null,
+    point: move(end.point),
+  });
+
+  return elements.map(el => {
+    const identity = { id: ids.get(el.id)!, ...(el.groupIds && { groupIds: el.groupIds.map(remapGroup) }) };
+    if (el.type === 'connector') {
+      return { ...el, ...identity, start: remapEnd(el.start), end: remapEnd(el.end), points: el.points.map(move) };
+    }
+    return { ...translateElement(el, dx, dy), ...identity };
+  });
+};
+
+/** Copies of `elements` centered on `point`. */
+export const cloneElementsAt = (elements: BoardElement[], point: Point): BoardElement[] => {
+  const bounds = getCommonBounds(elements);
+  if (!bounds) return [];
+  const center = getBoundsCenter(bounds);
+  return cloneElements(elements, point.x - center.x, point.y - center.y);
+};
+
+// Text elements render their content as HTML.
+export const textToHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+// Text elements store the HTML of their editable div; line breaks come from <br> and block tags.
+export const htmlToText = (html: string): string => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p)>/gi, '\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').documentElement.textContent ?? '';
+  return text.replace(/\n$/, '');
+};
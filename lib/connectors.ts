@@ -0,0 +1,130 @@
+import { BoardElement, ConnectorElement, ConnectorEndpoint, Point } from '../types';
+import { Bounds, getElementBounds, getBoundsCenter } from './geometry';
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+const BINDABLE_TYPES: BoardElement['type'][] = ['note', 'rectangle', 'circle', 'shape', 'text', 'image'];
+
+export const isBindable = (element: BoardElement): boolean => BINDABLE_TYPES.includes(element.type);
+
+const findBoundElement = (elements: BoardElement[], endpoint: ConnectorEndpoint): BoardElement | null => {
+  if (!endpoint.elementId) return null;
+  const element = elements.find(el => el.id === endpoint.elementId);
+  return element && isBindable(element) ? element : null;
+};
+
+// Where the ray from the element's center towards `target` leaves its outline.
+const getAttachmentPoint = (element: BoardElement, target: Point): Point => {
+  const bounds = getElementBounds(element);
+  const center = getBoundsCenter(bounds);
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+  const halfWidth = bounds.width / 2;
+  const halfHeight = bounds.height / 2;
+  let scale: number;
+  if (element.type === 'circle') {
+    scale = 1 / Math.sqrt((dx / halfWidth) ** 2 + (dy / halfHeight) ** 2);
+  } else {
+    scale = Math.min(
+      dx !== 0 ? halfWidth / Math.abs(dx) : Infinity,
+      dy !== 0 ? halfHeight / Math.abs(dy) : Infinity,
+    );
+  }
+  return { x: center.x + dx * scale, y: center.y + dy * scale };
+};
+
+const getSideAnchor = (bounds: Bounds, side: Side): Point => {
+  const center = getBoundsCenter(bounds);
+  switch (side) {
+    case 'left': return { x: bounds.x, y: center.y };
+    case 'right': return { x: bounds.x + bounds.width, y: center.y };
+    case 'top': return { x: center.x, y: bounds.y };
+    case 'bottom': return { x: center.x, y: bounds.y + bounds.height };
+  }
+};
+
+const routeStraight = (startElement: BoardElement | null, endElement: BoardElement | null, start: Point, end: Point): Point[] => {
+  const startTarget = startElement ? getBoundsCenter(getElementBounds(startElement)) : start;
+  const endTarget = endElement ? getBoundsCenter(getElementBounds(endElement)) : end;
+  return [
+    startElement ? getAttachmentPoint(startElement, endTarget) : start,
+    endElement ? getAttachmentPoint(endElement, startTarget) : end,
+  ];
+};
+
+const routeElbow = (startElement: BoardElement | null, endElement: BoardElement | null, start: Point, end: Point): Point[] => {
+  const startBounds = startElement ? getElementBounds(startElement) : null;
+  const endBounds = endElement ? getElementBounds(endElement) : null;
+  const from = startBounds ? getBoundsCenter(startBounds) : start;
+  const to = endBounds ? getBoundsCenter(endBounds) : end;
+  const horizontal = Math.abs(to.x - from.x) >= Math.abs(to.y - from.y);
+
+  const exitSide: Side = horizontal ? (to.x >= from.x ? 'right' : 'left') : (to.y >= from.y ? 'bottom' : 'top');
+  const entrySide: Side = horizontal ? (exitSide === 'right' ? 'left' : 'right') : (exitSide === 'bottom' ? 'top' : 'bottom');
+  const s = startBounds ? getSideAnchor(startBounds, exitSide) : start;
+  const e = endBounds ? getSideAnchor(endBounds, entrySide) : end;
+
+  if (horizontal) {
+    const midX = (s.x + e.x) / 2;
+    return [s, { x: midX, y: s.y }, { x: midX, y: e.y }, e];
+  }
+  const midY = (s.y + e.y) / 2;
+  return [s, { x: s.x, y: midY }, { x: e.x, y: midY }, e];
+};
+
+/**
+ * Recomputes a connector's route from the current bounds of the elements it is attached to.
+ * Endpoints whose element no longer exists keep their last known position.
+ */
+export const routeConnector = (connector: ConnectorElement, elements: BoardElement[]): ConnectorElement => {
+  const startElement = findBoundElement(elements, connector.start);
+  const endElement = findBoundElement(elements, connector.end);
+  const route = connector.routing === 'elbow' ? routeElbow : routeStraight;
+  const points = route(startElement, endElement, connector.start.point, connector.end.point);
+  return {
+    ...connector,
+    start: { ...connector.start, point: points[0] },
+    end: { ...connector.end, point: points[points.length - 1] },
+    points,
+  };
+};
+
+export const isConnectedTo = (connector: ConnectorElement, ids: string[]): boolean => {
+  return (connector.start.elementId !== null && ids.includes(connector.start.elementId))
+    || (connector.end.elementId !== null && ids.includes(connector.end.elementId));
+};
+
+// Re-routes every connector attached to one of the changed elements.
+export const rerouteConnectors = (elements: BoardElement[], changedIds: string[]): BoardElement[] => {
+  if (!elements.some(el => el.type === 'connector' && isConnectedTo(el, changedIds))) return elements;
+  return elements.map(el =>
+    el.type === 'connector' && isConnectedTo(el, changedIds) ? routeConnector(el, elements) : el
+  );
+};
+
+// Releases connector ends that were attached to deleted elements, leaving them where they were.
+export const detachConnectors = (elements: BoardElement[], deletedIds: string[]): BoardElement[] => {
+  if (!elements.some(el => el.type === 'connector' && isConnectedTo(el, deletedIds))) return elements;
+  return elements.map(el => {
+    if (el.type !== 'connector' || !isConnectedTo(el, deletedIds)) return el;
+    const detach = (endpoint: ConnectorEndpoint): ConnectorEndpoint =>
+      endpoint.elementId !== null && deletedIds.includes(endpoint.elementId) ? { ...endpoint, elementId: null } : endpoint;
+    return routeConnector({ ...el, start: detach(el.start), end: detach(el.end) }, elements);
+  });
+};
+
+// Routes the connectors of elements imported from elsewhere, releasing ends whose element didn't come along.
+export const routeImportedConnectors = (elements: BoardElement[]): BoardElement[] => {
+  const attachable = new Set(elements.filter(isBindable).map(el => el.id));
+  const attach = (endpoint: ConnectorEndpoint): ConnectorEndpoint =>
+    endpoint.elementId !== null && !attachable.has(endpoint.elementId) ? { ...endpoint, elementId: null } : endpoint;
+  return elements.map(el => el.type === 'connector' ? routeConnector({ ...el, start: attach(el.start), end: attach(el.end) }, elements) : el);
+};
+
+// Re-routes every connector from where its elements are now, keeping the ones whose route is unchanged.
+// Merged boards need this because each end of a connector may have been moved by someone else.
+export const settleConnectors = (elements: BoardElement[]): BoardElement[] => {
+  const routed = routeImportedConnectors(elements);
+  return routed.map((el, i) => el === elements[i] || JSON.stringify(el) === JSON.stringify(elements[i]) ? elements[i] : el);
+};
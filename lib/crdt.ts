@@ -0,0 +1,230 @@
+// A conflict-free document of records, each a set of last-writer-wins registers: one per field,
+// one for whether the record is deleted and one for its stacking position. Every write carries a
+// Lamport stamp and merging keeps the register with the higher stamp, so applying the same
+// operations in any order, any number of times, gives the same document. Nothing here knows about
+// board elements, so it can be tested on its own.
+
+// A Lamport counter, tie-broken by the replica (one per open board) that made the write.
+export interface Stamp {
+  counter: number;
+  replica: string;
+}
+
+// A field's value and when it was written. A register without a value records a removed field.
+export interface Register<T = any> {
+  value?: T;
+  stamp: Stamp;
+}
+
+// Records without a `deleted` register have only seen edits so far, not their creation, and stay hidden.
+export interface CrdtRecord {
+  fields: Record<string, Register>;
+  deleted?: Register<boolean>;
+  position?: Register<number>;
+}
+
+export interface CrdtDocument {
+  records: Record<string, CrdtRecord>;
+  // The highest counter seen, so the next local write is stamped after everything known.
+  clock: number;
+}
+
+// The writes one operation makes to one record.
+export interface RecordPatch {
+  id: string;
+  set?: Record<string, any>;
+  unset?: string[];
+  deleted?: boolean;
+  position?: number;
+}
+
+// Every register written by an operation shares its stamp.
+export interface CrdtOperation {
+  stamp: Stamp;
+  patches: RecordPatch[];
+}
+
+export const EMPTY_DOCUMENT: CrdtDocument = { records: {}, clock: 0 };
+
+export const compareStamps = (a: Stamp, b: Stamp): number => {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  return a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0;
+};
+
+const newer = <T,>(current: Register<T> | undefined, incoming: Register<T> | undefined): Register<T> | undefined => {
+  if (!incoming) return current;
+  return !current || compareStamps(incoming.stamp, current.stamp) > 0 ? incoming : current;
+};
+
+export const isCrdtOperation = (value: any): value is CrdtOperation => {
+  return !!value && typeof value.stamp?.counter === 'number' && typeof value.stamp?.replica === 'string' && Array.isArray(value.patches);
+};
+
+/** An operation stamped after everything `doc` has seen. */
+export const createOperation = (doc: CrdtDocument, replica: string, patches: RecordPatch[]): CrdtOperation => ({
+  stamp: { counter: doc.clock + 1, replica },
+  patches,
+});
+
+export const applyOperation = (doc: CrdtDocument, op: CrdtOperation): CrdtDocument => {
+  const records = { ...doc.records };
+  op.patches.forEach(patch => {
+    const record = records[patch.id] ?? { fields: {} };
+    const fields = { ...record.fields };
+    Object.entries(patch.set ?? {}).forEach(([key, value]) => {
+      fields[key] = newer(fields[key], { value, stamp: op.stamp })!;
+    });
+    (patch.unset ?? []).forEach(key => {
+      fields[key] = newer(fields[key], { stamp: op.stamp })!;
+    });
+    records[patch.id] = {
+      fields,
+      deleted: patch.deleted === undefined ? record.deleted : newer(record.deleted, { value: patch.deleted, stamp: op.stamp }),
+      position: patch.position === undefined ? record.position : newer(record.position, { value: patch.position, stamp: op.stamp }),
+    };
+  });
+  return { records, clock: Math.max(doc.clock, op.stamp.counter) };
+};
+
+/** Combines two replicas of a document, register by register. */
+export const mergeDocuments = (a: CrdtDocument, b: CrdtDocument): CrdtDocument => {
+  const records = { ...a.records };
+  Object.entries(b.records).forEach(([id, theirs]) => {
+    const ours = records[id];
+    if (!ours) {
+      records[id] = theirs;
+      return;
+    }
+    const fields = { ...ours.fields };
+    Object.entries(theirs.fields).forEach(([key, register]) => {
+      fields[key] = newer(fields[key], register)!;
+    });
+    records[id] = { fields, deleted: newer(ours.deleted, theirs.deleted), position: newer(ours.position, theirs.position) };
+  });
+  return { records, clock: Math.max(a.clock, b.clock) };
+};
+
+/**
+ * `doc` without the fields of deleted records, keeping their `deleted` and `position` registers so
+ * later operations still merge against them. Whatever brings a deleted record back writes all of its
+ * fields, so the dropped ones are never needed again.
+ */
+export const pruneDeletedRecords = (doc: CrdtDocument): CrdtDocument => {
+  const records: Record<string, CrdtRecord> = {};
+  Object.entries(doc.records).forEach(([id, record]) => {
+    records[id] = record.deleted?.value === true ? { fields: {}, deleted: record.deleted, position: record.position } : record;
+  });
+  return { records, clock: doc.clock };
+};
+
+const isVisible = (record: CrdtRecord) => record.deleted?.value === false;
+const getPosition = (record: CrdtRecord) => record.position?.value ?? 0;
+const getPositionReplica = (record: CrdtRecord) => record.position?.stamp.replica ?? '';
+const compareStrings = (a: string, b: string) => a < b ? -1 : a > b ? 1 : 0;
+
+// Records that haven't changed keep their materialized object, so unchanged values stay identical.
+const materializeCache = new WeakMap<CrdtRecord, Record<string, any>>();
+
+/**
+ * The live records as plain objects with their `id`, ordered by position. Replicas placing records at
+ * the same spot at once can pick the same positions; those are ordered by the replica that placed
+ * them, so each one's records stay together, and then by id.
+ */
+export const materializeDocument = (doc: CrdtDocument): Record<string, any>[] => {
+  return Object.entries(doc.records)
+    .filter(([, record]) => isVisible(record))
+    .sort(([idA, a], [idB, b]) => getPosition(a) - getPosition(b) || compareStrings(getPositionReplica(a), getPositionReplica(b)) || compareStrings(idA, idB))
+    .map(([id, record]) => {
+      let value = materializeCache.get(record);
+      if (!value) {
+        value = { id };
+        Object.entries(record.fields).forEach(([key, register]) => {
+          if (register.value !== undefined) value![key] = register.value;
+        });
+        materializeCache.set(record, value);
+      }
+      return value;
+    });
+};
+
+/** The writes that turn one version of a record's fields into another, or null when they match. */
+export const diffFields = (before: Record<string, any>, after: Record<string, any>): Pick<RecordPatch, 'set' | 'unset'> | null => {
+  const set: Record<string, any> = {};
+  Object.entries(after).forEach(([key, value]) => {
+    if (value !== undefined && JSON.stringify(value) !== JSON.stringify(before[key])) set[key] = value;
+  });
+  const unset = Object.keys(before).filter(key => before[key] !== undefined && after[key] === undefined);
+  if (Object.keys(set).length === 0 && unset.length === 0) return null;
+  return { ...(Object.keys(set).length > 0 ? { set } : {}), ...(unset.length > 0 ? { unset } : {}) };
+};
+
+// Indexes of the longest run of strictly increasing values, kept in order.
+const longestIncreasing = (values: number[]): Set<number> => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+  const kept = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) kept.add(i);
+  return kept;
+};
+
+// Positions are floats, so inserting at the same spot again and again runs out of room between two
+// neighbours after about fifty halvings. Once the gaps get this small relative to the positions,
+// records around the spot are moved too, until their gaps are at least the larger size again.
+const MIN_POSITION_GAP = 2 ** -32;
+const REBALANCED_POSITION_GAP = 2 ** -16;
+
+// `count` evenly spread positions between `lower` and `upper`, or null when they'd be closer than
+// `minGap` (relative to the positions' size) to each other or to either end.
+const spreadPositions = (lower: number | undefined, upper: number | undefined, count: number, minGap: number): number[] | null => {
+  if (upper === undefined) return Array.from({ length: count }, (_, k) => (lower ?? 0) + k + 1);
+  if (lower === undefined) return Array.from({ length: count }, (_, k) => upper - (count - k));
+  const step = (upper - lower) / (count + 1);
+  if (step < minGap * Math.max(1, Math.abs(lower), Math.abs(upper))) return null;
+  return Array.from({ length: count }, (_, k) => lower + step * (k + 1));
+};
+
+/**
+ * New positions that make `order` (bottom to top) hold while moving as few records as possible.
+ * `positions` has the current position of each record that has one; the result only contains the
+ * records that need a new position. Records sharing a position are moved apart, and when there is
+ * too little room left between two records the ones above are moved too.
+ */
+export const assignPositions = (order: string[], positions: Map<string, number>): Map<string, number> => {
+  const placed = order.map((id, i) => ({ id, i })).filter(({ id }) => positions.has(id));
+  const kept = longestIncreasing(placed.map(({ id }) => positions.get(id)!));
+  const fixed = new Map(placed.filter((_, k) => kept.has(k)).map(({ id }) => [id, positions.get(id)!]));
+
+  const assigned = new Map<string, number>();
+  for (let i = 0; i < order.length;) {
+    if (fixed.has(order[i])) {
+      i++;
+      continue;
+    }
+    const lower = i > 0 ? fixed.get(order[i - 1]) ?? assigned.get(order[i - 1]) : undefined;
+    let j = i;
+    let minGap = MIN_POSITION_GAP;
+    let spread: number[] | null = null;
+    while (!spread) {
+      while (j < order.length && !fixed.has(order[j])) j++;
+      spread = spreadPositions(lower, j < order.length ? fixed.get(order[j]) : undefined, j - i, minGap);
+      if (!spread) {
+        fixed.delete(order[j]);
+        minGap = REBALANCED_POSITION_GAP;
+      }
+    }
+    spread.forEach((position, k) => assigned.set(order[i + k], position));
+    i = j;
+  }
+  return assigned;
+};
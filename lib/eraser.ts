@@ -0,0 +1,72 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardElement, ElementReplacement, PathElement, Point, StrokePoint } from '../types';
+
+const lerp = (a: StrokePoint, b: StrokePoint, t: number): StrokePoint => {
+  const point: StrokePoint = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  if (a.pressure !== undefined && b.pressure !== undefined) {
+    point.pressure = a.pressure + (b.pressure - a.pressure) * t;
+  }
+  return point;
+};
+
+// The part of segment a→b (as 0..1 parameters) that lies inside the circle, if any.
+const getInsideInterval = (a: Point, b: Point, center: Point, radius: number): [number, number] | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const qa = dx * dx + dy * dy;
+  const qb = 2 * (fx * dx + fy * dy);
+  const qc = fx * fx + fy * fy - radius * radius;
+  if (qa === 0) return qc <= 0 ? [0, 1] : null;
+  const discriminant = qb * qb - 4 * qa * qc;
+  if (discriminant <= 0) return null;
+  const root = Math.sqrt(discriminant);
+  const t1 = Math.max(0, (-qb - root) / (2 * qa));
+  const t2 = Math.min(1, (-qb + root) / (2 * qa));
+  return t1 < t2 ? [t1, t2] : null;
+};
+
+/**
+ * Cuts the part of a pen stroke under a circular eraser. Returns null when the stroke is not
+ * touched, otherwise the remaining pieces (possibly none) as new paths with fresh ids.
+ */
+export const erasePathSegment = (path: PathElement, center: Point, radius: number): PathElement[] | null => {
+  const reach = radius + path.strokeWidth / 2;
+  const { points } = path;
+  if (points.length === 1) {
+    const [only] = points;
+    return Math.hypot(only.x - center.x, only.y - center.y) <= reach ? [] : null;
+  }
+
+  const runs: StrokePoint[][] = [];
+  let run: StrokePoint[] = [];
+  let touched = false;
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (run.length === 0 && i === 0) run.push(a);
+    const inside = getInsideInterval(a, b, center, reach);
+    if (!inside) {
+      if (run.length === 0) run.push(a);
+      run.push(b);
+      continue;
+    }
+    touched = true;
+    const [t1, t2] = inside;
+    if (t1 > 0 && run.length > 0) run.push(lerp(a, b, t1));
+    if (run.length > 1) runs.push(run);
+    run = [];
+    if (t2 < 1) run.push(lerp(a, b, t2), b);
+  }
+  if (run.length > 1) runs.push(run);
+  if (!touched) return null;
+
+  return runs.map(piece => ({ ...path, id: uuidv4(), points: piece }));
+};
+
+/** Swaps each replaced element for its pieces in place, so they keep its stacking position. */
+export const replaceElements = (elements: BoardElement[], replacements: ElementReplacement[]): BoardElement[] => {
+  const byId = new Map<string, BoardElement[]>(replacements.map(r => [r.id, r.elements]));
+  return elements.flatMap(el => byId.get(el.id) ?? [el]);
+};
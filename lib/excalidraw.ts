@@ -0,0 +1,438 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ArrowheadStyle, BoardElement, ElementBase, Point, StrokeStyle, Viewport } from '../types';
+import { BOARD_FILE_TYPE, BOARD_FILE_VERSION, DroppedFeatures, LoadedBoardFile, describeDropped, noteDropped, validateElements } from './boardFile';
+import { Bounds, getElementBounds, getPointsBounds } from './geometry';
+import { routeImportedConnectors } from './connectors';
+import { htmlToText, textToHtml } from './clipboard';
+import { fetchImageDataUrls } from './images';
+import { SHAPE_KINDS } from './shapes';
+import { DEFAULT_PRESSURE } from './strokes';
+import { DEFAULT_VIEWPORT } from './viewport';
+
+// Converts between board elements and Excalidraw's `.excalidraw` JSON (format version 2).
+// Anything without a counterpart is tallied so the user can be told what didn't make it across.
+export const EXCALIDRAW_FILE_EXTENSION = '.excalidraw';
+
+const LABEL_FONT_SIZE = 16;
+const LINE_HEIGHT = 1.25;
+const BINDING_GAP = 4;
+
+// Only the fields this converter reads or writes; Excalidraw fills in the rest when it loads a file.
+interface ExcalidrawElement {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+  strokeColor: string;
+  backgroundColor: string;
+  fillStyle: string;
+  strokeWidth: number;
+  strokeStyle: StrokeStyle;
+  roughness: number;
+  opacity: number;
+  groupIds: string[];
+  roundness: { type: number } | null;
+  boundElements: { id: string; type: 'text' | 'arrow' }[] | null;
+  link: string | null;
+  locked: boolean;
+  isDeleted?: boolean;
+  [field: string]: any;
+}
+
+interface ExcalidrawFile {
+  id: string;
+  mimeType: string;
+  dataURL: string;
+  created: number;
+}
+
+export interface ExcalidrawDocument {
+  type: 'excalidraw';
+  version: 2;
+  source: string;
+  elements: ExcalidrawElement[];
+  appState: { viewBackgroundColor: string; gridSize: number | null };
+  files: Record<string, ExcalidrawFile>;
+}
+
+export const isExcalidrawDocument = (doc: any): boolean => doc?.type === 'excalidraw' && Array.isArray(doc.elements);
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Excalidraw font families: 1 Virgil, 2 Helvetica, 3 Cascadia, 5 Excalifont, 6 Nunito, 7 Lilita One, 8 Comic Shanns.
+const fromExcalidrawFont = (family: number, dropped: DroppedFeatures): string => {
+  if (family === 2 || family === 6) return 'Arial';
+  if (family === 3 || family === 8) return 'Courier New';
+  noteDropped(dropped, 'Hand-drawn fonts (imported as Poppins)');
+  return 'Poppins';
+};
+
+const toExcalidrawFont = (fontFamily: string, dropped: DroppedFeatures): number => {
+  if (fontFamily === 'Courier New') return 3;
+  if (fontFamily === 'Georgia' || fontFamily === 'Times New Roman') noteDropped(dropped, 'Serif fonts (exported as Helvetica)');
+  return 2;
+};
+
+// Excalidraw keeps separate start and end heads; ours are a single style that points at the end.
+const fromExcalidrawArrowheads = (start: string | null, end: string | null, dropped: DroppedFeatures): { arrowhead: ArrowheadStyle; reversed: boolean } => {
+  [start, end].forEach(head => {
+    if (head && head !== 'arrow' && head !== 'triangle') noteDropped(dropped, `"${head}" arrowheads`);
+  });
+  if (start && end) return { arrowhead: 'both', reversed: false };
+  const head = end ?? start;
+  if (!head) return { arrowhead: 'none', reversed: false };
+  return { arrowhead: head === 'arrow' ? 'open' : 'filled', reversed: !end };
+};
+
+const toExcalidrawArrowheads = (arrowhead: ArrowheadStyle) => {
+  switch (arrowhead) {
+    case 'none': return { startArrowhead: null, endArrowhead: null };
+    case 'open': return { startArrowhead: null, endArrowhead: 'arrow' };
+    case 'filled': return { startArrowhead: null, endArrowhead: 'triangle' };
+    case 'both': return { startArrowhead: 'triangle', endArrowhead: 'triangle' };
+  }
+};
+
+const absolutePoints = (el: ExcalidrawElement): Point[] => {
+  return (el.points ?? []).map(([x, y]: [number, number]) => ({ x: el.x + x, y: el.y + y }));
+};
+
+const baseFrom = (el: ExcalidrawElement) => ({
+  id: el.id,
+  ...(el.groupIds?.length ? { groupIds: [...el.groupIds] } : {}),
+  ...(el.angle ? { rotation: el.angle } : {}),
+});
+
+const strokeFrom = (el: ExcalidrawElement) => ({
+  color: el.strokeColor,
+  strokeWidth: el.strokeWidth,
+  opacity: (el.opacity ?? 100) / 100,
+  strokeStyle: el.strokeStyle ?? 'solid',
+});
+
+const fillFrom = (el: ExcalidrawElement, dropped: DroppedFeatures) => {
+  if (!el.backgroundColor || el.backgroundColor === 'transparent') return { fillColor: 'transparent' };
+  if (el.fillStyle !== 'solid') noteDropped(dropped, 'Hatched fills (imported as solid)');
+  return { fillColor: el.backgroundColor };
+};
+
+// Diamonds and rounded rectangles become our labelled shapes, which take over their bound text.
+const takesLabel = (el: ExcalidrawElement | undefined) => !!el && (el.type === 'diamond' || (el.type === 'rectangle' && !!el.roundness));
+
+/** Reads an Excalidraw document into a board file ready to open. */
+export const fromExcalidraw = (doc: any): LoadedBoardFile => {
+  const dropped: DroppedFeatures = {};
+  const assets: Record<string, string> = {};
+  const files: Record<string, ExcalidrawFile> = doc.files ?? {};
+  const source: ExcalidrawElement[] = doc.elements.filter((el: any) => el && !el.isDeleted);
+  const valid = source.filter(el => typeof el.id === 'string' && isNumber(el.x) && isNumber(el.y));
+  const byId = new Map(valid.map(el => [el.id, el]));
+  const labels = new Map(valid.filter(el => el.type === 'text' && takesLabel(byId.get(el.containerId))).map(el => [el.containerId as string, el]));
+
+  const convert = (el: ExcalidrawElement): BoardElement | null => {
+    if (el.link) noteDropped(dropped, 'Links');
+    if (el.locked) noteDropped(dropped, 'Element locks');
+    if (el.roughness > 0 && ['rectangle', 'ellipse', 'diamond', 'line', 'arrow'].includes(el.type)) {
+      noteDropped(dropped, 'Sketchy stroke style (imported as clean lines)');
+    }
+    const box = { x: el.x, y: el.y, width: el.width, height: el.height };
+    switch (el.type) {
+      case 'rectangle':
+      case 'diamond': {
+        if (!takesLabel(el)) return { ...baseFrom(el), type: 'rectangle', ...box, ...strokeFrom(el), ...fillFrom(el, dropped) };
+        const label = labels.get(el.id);
+        return {
+          ...baseFrom(el), type: 'shape', shape: el.type === 'diamond' ? 'diamond' : 'rounded-rectangle', ...box,
+          ...strokeFrom(el), ...fillFrom(el, dropped), label: label ? label.originalText ?? label.text : '',
+        };
+      }
+      case 'ellipse':
+        return { ...baseFrom(el), type: 'circle', ...box, ...strokeFrom(el), ...fillFrom(el, dropped) };
+      case 'text': {
+        if (labels.get(el.containerId) === el) return null;
+        if ((el.opacity ?? 100) < 100) noteDropped(dropped, 'Text opacity');
+        const align = el.textAlign === 'center' || el.textAlign === 'right' ? el.textAlign : 'left';
+        return {
+          ...baseFrom(el), type: 'text', ...box, text: textToHtml(el.originalText ?? el.text ?? ''), color: el.strokeColor,
+          fontSize: el.fontSize ?? 20, fontFamily: fromExcalidrawFont(el.fontFamily, dropped), textAlign: align,
+        };
+      }
+      case 'freedraw': {
+        if (el.backgroundColor && el.backgroundColor !== 'transparent') noteDropped(dropped, 'Filled freehand shapes');
+        const points = absolutePoints(el).map((p, i) => el.simulatePressure || !isNumber(el.pressures?.[i]) ? p : { ...p, pressure: el.pressures[i] });
+        if (points.length === 0) return null;
+        return { ...baseFrom(el), type: 'path', points, ...strokeFrom(el) };
+      }
+      case 'line': {
+        const points = absolutePoints(el);
+        if (points.length < 2) return null;
+        if (el.backgroundColor && el.backgroundColor !== 'transparent') noteDropped(dropped, 'Filled polygons');
+        if (points.length === 2) return { ...baseFrom(el), type: 'line', start: points[0], end: points[1], ...strokeFrom(el) };
+        noteDropped(dropped, 'Multi-point lines (imported as freehand strokes)');
+        return { ...baseFrom(el), type: 'path', points, ...strokeFrom(el) };
+      }
+      case 'arrow': {
+        const points = absolutePoints(el);
+        if (points.length < 2) return null;
+        const { arrowhead, reversed } = fromExcalidrawArrowheads(el.startArrowhead ?? null, el.endArrowhead ?? null, dropped);
+        const ends = reversed ? [points[points.length - 1], points[0]] : [points[0], points[points.length - 1]];
+        const bindings = reversed ? [el.endBinding, el.startBinding] : [el.startBinding, el.endBinding];
+        if (bindings.some(binding => binding?.elementId)) {
+          return {
+            ...baseFrom(el), type: 'connector', routing: el.elbowed ? 'elbow' : 'straight', points: ends, arrowhead, ...strokeFrom(el),
+            start: { elementId: bindings[0]?.elementId ?? null, point: ends[0] },
+            end: { elementId: bindings[1]?.elementId ?? null, point: ends[1] },
+          };
+        }
+        if (points.length > 2) noteDropped(dropped, 'Arrow bend points');
+        return { ...baseFrom(el), type: 'arrow', start: ends[0], end: ends[1], arrowhead, ...strokeFrom(el) };
+      }
+      case 'image': {
+        const file = files[el.fileId];
+        if (!file?.dataURL) {
+          noteDropped(dropped, 'Images without embedded data');
+          return null;
+        }
+        if (el.crop) noteDropped(dropped, 'Image crops');
+        assets[el.fileId] = file.dataURL;
+        return { ...baseFrom(el), type: 'image', src: el.fileId, ...box };
+      }
+      case 'frame':
+      case 'magicframe':
+        noteDropped(dropped, 'Frames');
+        return null;
+      case 'embeddable':
+      case 'iframe':
+        noteDropped(dropped, 'Embedded web content');
+        return null;
+      case 'selection':
+        return null;
+      default:
+        noteDropped(dropped, `Unknown "${el.type}" elements`);
+        return null;
+    }
+  };
+
+  // Converted elements carry whatever the file had in the fields read, so they're validated like a board file's.
+  const converted = valid.map(convert).filter((el): el is BoardElement => el !== null);
+  const elements = routeImportedConnectors(validateElements(converted));
+
+  const appState = doc.appState ?? {};
+  const zoom = isNumber(appState.zoom?.value) ? appState.zoom.value : 1;
+  // Excalidraw maps board to screen as (board + scroll) * zoom.
+  const viewport: Viewport = isNumber(appState.scrollX) && isNumber(appState.scrollY)
+    ? { pan: { x: appState.scrollX * zoom, y: appState.scrollY * zoom }, zoom }
+    : DEFAULT_VIEWPORT;
+
+  return {
+    file: {
+      type: BOARD_FILE_TYPE,
+      version: BOARD_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      metadata: { name: 'Excalidraw drawing' },
+      viewport,
+      elements,
+      assets,
+    },
+    skipped: source.length - valid.length + converted.length - elements.length,
+    dropped: describeDropped(dropped),
+  };
+};
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const excalidrawBase = (el: ElementBase, type: string, bounds: Bounds): ExcalidrawElement => ({
+  id: el.id,
+  type,
+  ...bounds,
+  angle: el.rotation ?? 0,
+  strokeColor: '#1e1e1e',
+  backgroundColor: 'transparent',
+  fillStyle: 'solid',
+  strokeWidth: 2,
+  strokeStyle: 'solid',
+  roughness: 0,
+  opacity: 100,
+  groupIds: el.groupIds ?? [],
+  frameId: null,
+  roundness: null,
+  seed: randomSeed(),
+  version: 1,
+  versionNonce: randomSeed(),
+  isDeleted: false,
+  boundElements: null,
+  updated: Date.now(),
+  link: null,
+  locked: false,
+});
+
+const excalidrawStroke = (el: Extract<BoardElement, { strokeWidth: number }>) => ({
+  strokeColor: el.color,
+  strokeWidth: el.strokeWidth,
+  strokeStyle: el.strokeStyle ?? 'solid',
+  opacity: Math.round((el.opacity ?? 1) * 100),
+});
+
+const excalidrawFill = (fillColor: string | undefined) => (
+  fillColor && fillColor !== 'transparent' ? { backgroundColor: fillColor } : {}
+);
+
+// Points of a linear element relative to its first point, as Excalidraw stores them.
+const excalidrawLinear = (el: ElementBase, type: 'line' | 'arrow', points: Point[]): ExcalidrawElement => {
+  const bounds = getPointsBounds(points);
+  return {
+    ...excalidrawBase(el, type, { ...bounds, x: points[0].x, y: points[0].y }),
+    points: points.map(p => [p.x - points[0].x, p.y - points[0].y]),
+    lastCommittedPoint: null,
+    startBinding: null,
+    endBinding: null,
+    startArrowhead: null,
+    endArrowhead: null,
+  };
+};
+
+/** Builds an Excalidraw document from board elements, downloading images into it. */
+export const toExcalidraw = async (elements: BoardElement[]): Promise<{ document: ExcalidrawDocument; dropped: string[] }> => {
+  const dropped: DroppedFeatures = {};
+  const output: ExcalidrawElement[] = [];
+  const byId = new Map<string, ExcalidrawElement>();
+  const files: Record<string, ExcalidrawFile> = {};
+  const fileIds = new Map<string, string>();
+  const dataUrls = await fetchImageDataUrls(elements.flatMap(el => el.type === 'image' || el.type === 'page' ? [el.src] : []));
+
+  const add = (el: ExcalidrawElement) => {
+    output.push(el);
+    byId.set(el.id, el);
+  };
+  const bind = (containerId: string, binding: { id: string; type: 'text' | 'arrow' }) => {
+    const container = byId.get(containerId);
+    if (container) container.boundElements = [...(container.boundElements ?? []), binding];
+  };
+  const addBoundText = (container: ExcalidrawElement, text: string, color: string, fontSize: number, align: 'left' | 'center', verticalAlign: 'top' | 'middle') => {
+    if (!text.trim()) return;
+    const id = uuidv4();
+    add({
+      ...excalidrawBase({ id, groupIds: container.groupIds, rotation: container.angle }, 'text', { x: container.x, y: container.y, width: container.width, height: container.height }),
+      strokeColor: color, text, originalText: text, fontSize, fontFamily: 2,
+      textAlign: align, verticalAlign, containerId: container.id, lineHeight: LINE_HEIGHT, autoResize: true,
+    });
+    bind(container.id, { id, type: 'text' });
+  };
+
+  elements.forEach(el => {
+    switch (el.type) {
+      case 'path': {
+        const bounds = getPointsBounds(el.points);
+        if (el.isHighlighter) noteDropped(dropped, 'Highlighter strokes (exported as translucent pen strokes)');
+        add({
+          ...excalidrawBase(el, 'freedraw', bounds), ...excalidrawStroke(el),
+          ...(el.isHighlighter ? { opacity: 40 } : {}),
+          points: el.points.map(p => [p.x - bounds.x, p.y - bounds.y]),
+          pressures: el.points.map(p => p.pressure ?? DEFAULT_PRESSURE),
+          simulatePressure: el.points.every(p => p.pressure === undefined),
+          lastCommittedPoint: null,
+        });
+        break;
+      }
+      case 'note': {
+        noteDropped(dropped, 'Sticky notes (exported as filled rectangles)');
+        const note = { ...excalidrawBase(el, 'rectangle', getElementBounds(el)), strokeColor: el.color, backgroundColor: el.color };
+        add(note);
+        addBoundText(note, el.text, '#1e1e1e', LABEL_FONT_SIZE, 'left', 'top');
+        break;
+      }
+      case 'image':
+      case 'page': {
+        const dataUrl = dataUrls.get(el.src);
+        if (!dataUrl) {
+          noteDropped(dropped, 'Images that could not be downloaded');
+          break;
+        }
+        if (el.type === 'page') noteDropped(dropped, 'Document pages (exported as images)');
+        if (!fileIds.has(el.src)) {
+          const id = uuidv4();
+          fileIds.set(el.src, id);
+          files[id] = { id, mimeType: dataUrl.slice(5, dataUrl.indexOf(';')), dataURL: dataUrl, created: Date.now() };
+        }
+        add({ ...excalidrawBase(el, 'image', getElementBounds(el)), fileId: fileIds.get(el.src), status: 'saved', scale: [1, 1] });
+        break;
+      }
+      case 'rectangle':
+        add({ ...excalidrawBase(el, 'rectangle', getElementBounds(el)), ...excalidrawStroke(el), ...excalidrawFill(el.fillColor) });
+        break;
+      case 'circle':
+        add({ ...excalidrawBase(el, 'ellipse', getElementBounds(el)), ...excalidrawStroke(el), ...excalidrawFill(el.fillColor) });
+        break;
+      case 'shape': {
+        if (el.shape !== 'diamond' && el.shape !== 'rounded-rectangle') {
+          const label = SHAPE_KINDS.find(kind => kind.id === el.shape)?.label ?? el.shape;
+          noteDropped(dropped, `${label} shapes (exported as rectangles)`);
+        }
+        const shape = {
+          ...excalidrawBase(el, el.shape === 'diamond' ? 'diamond' : 'rectangle', getElementBounds(el)),
+          ...excalidrawStroke(el), ...excalidrawFill(el.fillColor),
+          roundness: el.shape === 'rounded-rectangle' ? { type: 3 } : null,
+        };
+        add(shape);
+        addBoundText(shape, el.label, el.color, LABEL_FONT_SIZE, 'center', 'middle');
+        break;
+      }
+      case 'line':
+        add({ ...excalidrawLinear(el, 'line', [el.start, el.end]), ...excalidrawStroke(el) });
+        break;
+      case 'arrow':
+        add({ ...excalidrawLinear(el, 'arrow', [el.start, el.end]), ...excalidrawStroke(el), ...toExcalidrawArrowheads(el.arrowhead) });
+        break;
+      case 'connector': {
+        if (el.routing === 'elbow') noteDropped(dropped, 'Elbow connector routing (exported as bent arrows)');
+        const binding = (elementId: string | null) => elementId ? { elementId, focus: 0, gap: BINDING_GAP } : null;
+        add({
+          ...excalidrawLinear(el, 'arrow', el.points.length >= 2 ? el.points : [el.start.point, el.end.point]),
+          ...excalidrawStroke(el), ...toExcalidrawArrowheads(el.arrowhead),
+          startBinding: binding(el.start.elementId),
+          endBinding: binding(el.end.elementId),
+        });
+        break;
+      }
+      case 'text': {
+        if (/<(b|strong|i|em|u|s|strike|span|font)\b/i.test(el.text)) noteDropped(dropped, 'Rich text formatting');
+        const text = htmlToText(el.text);
+        add({
+          ...excalidrawBase(el, 'text', getElementBounds(el)), strokeColor: el.color, text, originalText: text,
+          fontSize: el.fontSize, fontFamily: toExcalidrawFont(el.fontFamily, dropped), textAlign: el.textAlign,
+          verticalAlign: 'top', containerId: null, lineHeight: LINE_HEIGHT, autoResize: false,
+        });
+        break;
+      }
+    }
+  });
+
+  // Excalidraw expects both sides of an arrow binding, so attached elements list their arrows too.
+  elements.forEach(el => {
+    if (el.type !== 'connector') return;
+    const arrow = byId.get(el.id)!;
+    [el.start.elementId, el.end.elementId].forEach((elementId, i) => {
+      if (!elementId) return;
+      if (byId.has(elementId)) {
+        bind(elementId, { id: el.id, type: 'arrow' });
+      } else {
+        arrow[i === 0 ? 'startBinding' : 'endBinding'] = null;
+      }
+    });
+  });
+
+  return {
+    document: {
+      type: 'excalidraw',
+      version: 2,
+      source: window.location.origin,
+      elements: output,
+      appState: { viewBackgroundColor: '#ffffff', gridSize: null },
+      files,
+    },
+    dropped: describeDropped(dropped),
+  };
+};
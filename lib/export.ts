@@ -0,0 +1,280 @@
+import { jsPDF } from 'jspdf';
+import { BoardElement, ConnectorElement, Point, ShapeElement, StickyNoteElement, TextElement } from '../types';
+import { Bounds, getBoundsCenter, getCommonBounds, getElementBounds, getElementRotation, getRotatedBounds, intersectBounds, isBoundsInside } from './geometry';
+import { getDashPattern, hasFill } from './styles';
+import { getShapeLabelBounds, getShapePath } from './shapes';
+import { getPressureWidth, getStrokeOutline, smoothStroke } from './strokes';
+import { fetchImageDataUrls } from './images';
+import { htmlToText } from './clipboard';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+export type ExportScope = 'board' | 'viewport' | 'selection';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // A CSS color, or null for a transparent background (PNG and SVG only).
+  background: string | null;
+  // PNG pixels per board unit.
+  scale: number;
+}
+
+// Space left around the exported content when exporting the board or a selection.
+export const EXPORT_PADDING = 24;
+// PDF pages are rasterized at this many pixels per board unit.
+const PDF_RENDER_SCALE = 2;
+const LABEL_FONT_SIZE = 16;
+const NOTE_PADDING = 16;
+const NOTE_FONT = '16px ui-sans-serif, system-ui, sans-serif';
+const TEXT_LINE_HEIGHT = 1.3;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const escapeXml = (text: string) => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+// An attribute value taken from the board. Boards come from files and other participants, so even
+// fields that should be colors or numbers are escaped.
+const attr = (value: unknown) => escapeXml(String(value));
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Breaks text into lines that fit `maxWidth` in `font`, keeping explicit line breaks.
+const wrapText = (text: string, font: string, maxWidth: number): string[] => {
+  measureContext ??= document.createElement('canvas').getContext('2d')!;
+  measureContext.font = font;
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureContext!.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const textLines = (lines: string[], x: number, y: number, lineHeight: number, attributes: string) => {
+  const spans = lines.map((line, i) => `<tspan x="${round(x)}" y="${round(y + i * lineHeight)}">${escapeXml(line) || ' '}</tspan>`).join('');
+  return `<text ${attributes} xml:space="preserve">${spans}</text>`;
+};
+
+const polyline = (points: Point[]) => points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${round(p.x)} ${round(p.y)}`).join(' ');
+
+const arrowhead = (from: Point, to: Point, strokeWidth: number, color: string, filled: boolean) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const size = Math.max(10, strokeWidth * 3);
+  const spread = Math.PI / 7;
+  const left = { x: to.x - size * Math.cos(angle - spread), y: to.y - size * Math.sin(angle - spread) };
+  const right = { x: to.x - size * Math.cos(angle + spread), y: to.y - size * Math.sin(angle + spread) };
+  const d = `${polyline([left, to, right])}${filled ? ' Z' : ''}`;
+  return `<path d="${d}" fill="${filled ? attr(color) : 'none'}" stroke="${attr(color)}" stroke-width="${attr(strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+};
+
+const arrowheads = (points: Point[], style: ConnectorElement['arrowhead'], strokeWidth: number, color: string) => {
+  if (style === 'none' || points.length < 2) return '';
+  const filled = style !== 'open';
+  const end = arrowhead(points[points.length - 2], points[points.length - 1], strokeWidth, color, filled);
+  return style === 'both' ? end + arrowhead(points[1], points[0], strokeWidth, color, filled) : end;
+};
+
+const strokeAttributes = (element: Extract<BoardElement, { strokeWidth: number }>, fill = 'none') => {
+  const dash = getDashPattern(element.strokeStyle, element.strokeWidth);
+  return [
+    `stroke="${attr(element.color)}"`,
+    `stroke-width="${attr(element.strokeWidth)}"`,
+    'stroke-linecap="round"',
+    'stroke-linejoin="round"',
+    `fill="${attr(fill)}"`,
+    dash.length > 0 ? `stroke-dasharray="${attr(dash.join(' '))}"` : '',
+  ].filter(Boolean).join(' ');
+};
+
+const noteToSvg = (note: StickyNoteElement) => {
+  const lines = wrapText(note.text, NOTE_FONT, note.width - NOTE_PADDING * 2);
+  const lineHeight = 24;
+  const box = `x="${attr(note.x)}" y="${attr(note.y)}" width="${attr(note.width)}" height="${attr(note.height)}"`;
+  return `<rect ${box} rx="6" fill="${attr(note.color || '#ffc')}"/>`
+    + `<clipPath id="clip-${attr(note.id)}"><rect ${box}/></clipPath>`
+    + textLines(lines, note.x + NOTE_PADDING, note.y + NOTE_PADDING + 16, lineHeight, `clip-path="url(#clip-${attr(note.id)})" font-family="ui-sans-serif, system-ui, sans-serif" font-size="16" fill="#111827"`);
+};
+
+const textToSvg = (text: TextElement) => {
+  const lineHeight = text.fontSize * TEXT_LINE_HEIGHT;
+  const padding = 4;
+  const maxWidth = text.width - padding * 2;
+  const lines = wrapText(htmlToText(text.text), `${text.fontSize}px ${text.fontFamily}`, maxWidth);
+  const anchor = { left: 'start', center: 'middle', right: 'end' }[text.textAlign];
+  const x = text.textAlign === 'left' ? text.x + padding : text.textAlign === 'center' ? text.x + text.width / 2 : text.x + text.width - padding;
+  const baseline = text.y + padding + (lineHeight + text.fontSize * 0.7) / 2;
+  return textLines(lines, x, baseline, lineHeight, `font-family="${attr(text.fontFamily)}" font-size="${attr(text.fontSize)}" fill="${attr(text.color)}" text-anchor="${attr(anchor)}"`);
+};
+
+const shapeLabelToSvg = (shape: ShapeElement) => {
+  if (!shape.label) return '';
+  const bounds = getShapeLabelBounds(shape);
+  const lineHeight = LABEL_FONT_SIZE * 1.25;
+  const lines = wrapText(shape.label, `${LABEL_FONT_SIZE}px Poppins`, bounds.width);
+  const top = bounds.y + bounds.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  return textLines(lines, bounds.x + bounds.width / 2, top, lineHeight, `font-family="Poppins" font-size="${LABEL_FONT_SIZE}" fill="${attr(shape.color)}" text-anchor="middle" dominant-baseline="middle"`);
+};
+
+const elementToSvg = (element: BoardElement, images: Map<string, string>): string => {
+  switch (element.type) {
+    case 'image':
+    case 'page': {
+      const href = images.get(element.src);
+      const box = `x="${attr(element.x)}" y="${attr(element.y)}" width="${attr(element.width)}" height="${attr(element.height)}"`;
+      const border = element.type === 'page' ? `<rect ${box} fill="none" stroke="#cbd5e1" stroke-width="1"/>` : '';
+      if (!href) return border;
+      return `<image href="${attr(href)}" ${box} preserveAspectRatio="none"/>${border}`;
+    }
+    case 'note':
+      return noteToSvg(element);
+    case 'text':
+      return textToSvg(element);
+    case 'path': {
+      const points = smoothStroke(element.points);
+      if (points.length === 0) return '';
+      if (element.isHighlighter || (element.strokeStyle && element.strokeStyle !== 'solid')) {
+        return `<path d="${polyline(points)}" ${strokeAttributes(element)}/>`;
+      }
+      const outline = getStrokeOutline(points, element.strokeWidth);
+      const caps = [points[0], points[points.length - 1]].map(p => {
+        const r = round(getPressureWidth(p, element.strokeWidth) / 2);
+        return `M ${round(p.x - r)} ${round(p.y)} a ${r} ${r} 0 1 0 ${r * 2} 0 a ${r} ${r} 0 1 0 ${-r * 2} 0`;
+      }).join(' ');
+      const body = outline.length > 0 ? `${polyline(outline)} Z ` : '';
+      return `<path d="${attr(body + caps)}" fill="${attr(element.color)}" fill-rule="nonzero"/>`;
+    }
+    case 'rectangle':
+      return `<rect x="${attr(element.x)}" y="${attr(element.y)}" width="${attr(element.width)}" height="${attr(element.height)}" ${strokeAttributes(element, hasFill(element) ? element.fillColor! : 'none')}/>`;
+    case 'circle':
+      return `<ellipse cx="${attr(element.x + element.width / 2)}" cy="${attr(element.y + element.height / 2)}" rx="${attr(Math.abs(element.width / 2))}" ry="${attr(Math.abs(element.height / 2))}" ${strokeAttributes(element, hasFill(element) ? element.fillColor! : 'none')}/>`;
+    case 'shape':
+      return `<path d="${attr(getShapePath(element))}" ${strokeAttributes(element, hasFill(element) ? element.fillColor! : 'none')}/>`;
+    case 'line':
+    case 'arrow': {
+      const line = `<path d="${polyline([element.start, element.end])}" ${strokeAttributes(element)}/>`;
+      return element.type === 'arrow' ? line + arrowheads([element.start, element.end], element.arrowhead, element.strokeWidth, element.color) : line;
+    }
+    case 'connector':
+      if (element.points.length < 2) return '';
+      return `<path d="${polyline(element.points)}" ${strokeAttributes(element)}/>` + arrowheads(element.points, element.arrowhead, element.strokeWidth, element.color);
+  }
+};
+
+const wrapElement = (element: BoardElement, images: Map<string, string>) => {
+  const rotation = getElementRotation(element);
+  const center = getBoundsCenter(getElementBounds(element));
+  const transform = rotation ? ` transform="rotate(${round((rotation * 180) / Math.PI)} ${round(center.x)} ${round(center.y)})"` : '';
+  const opacity = 'opacity' in element && element.opacity !== undefined && element.opacity !== 1 ? ` opacity="${attr(element.opacity)}"` : '';
+  // Shape labels stay fully opaque, as on the board, so they sit outside the faded group.
+  const label = element.type === 'shape' ? shapeLabelToSvg(element) : '';
+  return `<g${transform}${opacity}>${elementToSvg(element, images)}</g>${label && `<g${transform}>${label}</g>`}`;
+};
+
+const buildSvg = (elements: BoardElement[], bounds: Bounds, background: string | null, images: Map<string, string>) => {
+  // Same stacking as the board: pages, then highlighter ink, then other canvas elements, then notes and text.
+  const isDom = (el: BoardElement) => el.type === 'note' || el.type === 'text';
+  const isHighlighter = (el: BoardElement) => el.type === 'path' && !!el.isHighlighter;
+  const ordered = [
+    ...elements.filter(el => el.type === 'page'),
+    ...elements.filter(isHighlighter),
+    ...elements.filter(el => el.type !== 'page' && !isHighlighter(el) && !isDom(el)),
+    ...elements.filter(isDom),
+  ];
+  const { x, y, width, height } = bounds;
+  const backgroundRect = background ? `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="${attr(background)}"/>` : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="${round(x)} ${round(y)} ${round(width)} ${round(height)}">`
+    + backgroundRect
+    + ordered.map(el => wrapElement(el, images)).join('')
+    + '</svg>';
+};
+
+const rasterize = (svg: string, bounds: Bounds, scale: number, type: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bounds.width * scale));
+      canvas.height = Math.max(1, Math.round(bounds.height * scale));
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The export is too large to render.')), type, 0.92);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The board could not be rendered.'));
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Renders `elements` clipped to `bounds` in the requested format. PDFs get one page per imported
+ * document page the bounds reach (with its annotations), cut to the bounds, and one more for
+ * whatever lies outside those pages; without document pages, a single page of the whole area.
+ */
+export const exportElements = async (elements: BoardElement[], bounds: Bounds, options: ExportOptions): Promise<Blob> => {
+  // Inlined images keep SVGs self-contained and stop storage URLs from tainting the canvas.
+  const images = await fetchImageDataUrls(elements.flatMap(el => el.type === 'image' || el.type === 'page' ? [el.src] : []));
+  if (options.format === 'svg') {
+    return new Blob([buildSvg(elements, bounds, options.background, images)], { type: 'image/svg+xml' });
+  }
+  if (options.format === 'png') {
+    return rasterize(buildSvg(elements, bounds, options.background, images), bounds, options.scale, 'image/png');
+  }
+
+  const pages = elements.flatMap(el => el.type === 'page' ? intersectBounds(getElementBounds(el), bounds) ?? [] : []);
+  const outside = getCommonBounds(elements.filter(el => el.type !== 'page' && !pages.some(page => isBoundsInside(getRotatedBounds(el), page))));
+  const rest = outside && intersectBounds({
+    x: outside.x - EXPORT_PADDING,
+    y: outside.y - EXPORT_PADDING,
+    width: outside.width + EXPORT_PADDING * 2,
+    height: outside.height + EXPORT_PADDING * 2,
+  }, bounds);
+  const pageBounds = pages.length === 0 ? [bounds] : rest ? [...pages, rest] : pages;
+  let pdf: jsPDF | null = null;
+  for (const page of pageBounds) {
+    const orientation = page.width > page.height ? 'landscape' : 'portrait';
+    const format = [page.width, page.height];
+    const jpeg = await rasterize(buildSvg(elements, page, options.background ?? '#FFFFFF', images), page, PDF_RENDER_SCALE, 'image/jpeg');
+    const data = new Uint8Array(await jpeg.arrayBuffer());
+    if (pdf) {
+      pdf.addPage(format, orientation);
+    } else {
+      pdf = new jsPDF({ unit: 'px', format, orientation, hotfixes: ['px_scaling'] });
+    }
+    pdf.addImage(data, 'JPEG', 0, 0, page.width, page.height);
+  }
+  return pdf!.output('blob');
+};
+
+/**
+ * An SVG thumbnail of `elements`. Images appear if their `src` is already a data URL or is in
+ * `images`, as returned by `fetchImageDataUrls`.
+ */
+export const renderPreviewSvg = (elements: BoardElement[], images: Map<string, string> = new Map()): string | null => {
+  const bounds = getCommonBounds(elements);
+  if (!bounds) return null;
+  const padded = { x: bounds.x - EXPORT_PADDING, y: bounds.y - EXPORT_PADDING, width: bounds.width + EXPORT_PADDING * 2, height: bounds.height + EXPORT_PADDING * 2 };
+  const inlined = new Map(elements.flatMap(el => (el.type === 'image' || el.type === 'page') && el.src.startsWith('data:') ? [[el.src, el.src] as const] : []));
+  return buildSvg(elements, padded, null, new Map([...images, ...inlined]));
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,229 @@
+import { BoardElement, Point, PathElement, LineElement, ArrowElement } from '../types';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getElementBounds = (element: BoardElement): Bounds => {
+  if (element.type === 'note' || element.type === 'image' || element.type === 'rectangle' || element.type === 'circle' || element.type === 'shape' || element.type === 'text') {
+    return { x: element.x, y: element.y, width: element.width, height: element.height };
+  }
+  if (element.type === 'path' || element.type === 'connector') {
+    return getPointsBounds(element.points);
+  }
+  if (element.type === 'line' || element.type === 'arrow') {
+    return getPointsBounds([element.start, element.end]);
+  }
+  return { x: 0, y: 0, width: 0, height: 0 };
+};
+
+export const getPointsBounds = (points: Point[]): Bounds => {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  points.forEach(p => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const getBoundsCenter = (bounds: Bounds): Point => ({
+  x: bounds.x + bounds.width / 2,
+  y: bounds.y + bounds.height / 2,
+});
+
+export const isPointInBounds = (point: Point, bounds: Bounds): boolean => {
+  return (
+    point.x >= bounds.x &&
+    point.x <= bounds.x + bounds.width &&
+    point.y >= bounds.y &&
+    point.y <= bounds.y + bounds.height
+  );
+};
+
+export const distanceToSegment = (p: Point, v: Point, w: Point): number => {
+  const l2 = (v.x - w.x) ** 2 + (v.y - w.y) ** 2;
+  if (l2 === 0) return Math.sqrt((p.x - v.x) ** 2 + (p.y - v.y) ** 2);
+  let t = ((p.x - v.x) * (w.x - v.x) + (p.y - v.y) * (w.y - v.y)) / l2;
+  t = Math.max(0, Math.min(1, t));
+  const projection = { x: v.x + t * (w.x - v.x), y: v.y + t * (w.y - v.y) };
+  return Math.sqrt((p.x - projection.x) ** 2 + (p.y - projection.y) ** 2);
+};
+
+export const isPointNearPolyline = (point: Point, points: Point[], threshold: number): boolean => {
+  for (let i = 0; i < points.length - 1; i++) {
+    if (distanceToSegment(point, points[i], points[i + 1]) < threshold) {
+      return true;
+    }
+  }
+  return false;
+};
+
+export const isPointNearPath = (point: Point, path: PathElement): boolean => {
+  return isPointNearPolyline(point, path.points, path.strokeWidth / 2 + 5);
+};
+
+export const isPointNearSegmentElement = (point: Point, element: LineElement | ArrowElement): boolean => {
+  return distanceToSegment(point, element.start, element.end) < element.strokeWidth / 2 + 5;
+};
+
+export const isLinear = (element: BoardElement): element is LineElement | ArrowElement => {
+  return element.type === 'line' || element.type === 'arrow';
+};
+
+export const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+  if (angle === 0) return point;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { ...point, x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+/**
+ * Box-shaped elements keep their unrotated bounds plus a `rotation` about their center. Elements made of
+ * points (paths, lines, arrows, connectors) have rotations baked into their points instead.
+ */
+export const getElementRotation = (element: BoardElement): number => element.rotation ?? 0;
+
+// Maps a board point into the element's unrotated frame, so box hit-testing works as before.
+export const toElementSpace = (point: Point, element: BoardElement): Point => {
+  const rotation = getElementRotation(element);
+  if (rotation === 0) return point;
+  return rotatePoint(point, getBoundsCenter(getElementBounds(element)), -rotation);
+};
+
+// The axis-aligned box around an element after its rotation is applied.
+export const getRotatedBounds = (element: BoardElement): Bounds => {
+  const bounds = getElementBounds(element);
+  const rotation = getElementRotation(element);
+  if (rotation === 0) return bounds;
+  const center = getBoundsCenter(bounds);
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x, y: bounds.y + bounds.height },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+  ].map(p => rotatePoint(p, center, rotation));
+  return getPointsBounds(corners);
+};
+
+export const getCommonBounds = (elements: BoardElement[]): Bounds | null => {
+  if (elements.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  elements.forEach(el => {
+    const b = getRotatedBounds(el);
+    minX = Math.min(minX, b.x);
+    minY = Math.min(minY, b.y);
+    maxX = Math.max(maxX, b.x + b.width);
+    maxY = Math.max(maxY, b.y + b.height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const doBoundsIntersect = (a: Bounds, b: Bounds): boolean => {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+};
+
+// The area two boxes share, or null when they don't overlap.
+export const intersectBounds = (a: Bounds, b: Bounds): Bounds | null => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const width = Math.min(a.x + a.width, b.x + b.width) - x;
+  const height = Math.min(a.y + a.height, b.y + b.height) - y;
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+};
+
+export const isBoundsInside = (inner: Bounds, outer: Bounds): boolean => {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+};
+
+// Builds a normalized box from two corner points, whichever way they were dragged.
+export const getBoundsFromPoints = (a: Point, b: Point): Bounds => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y),
+});
+
+export const translateElement = <T extends BoardElement>(element: T, dx: number, dy: number): T => {
+  const move = (p: Point) => ({ ...p, x: p.x + dx, y: p.y + dy });
+  const el = element as BoardElement;
+  switch (el.type) {
+    case 'path':
+      return { ...el, points: el.points.map(move) } as T;
+    case 'line':
+    case 'arrow':
+      return { ...el, start: move(el.start), end: move(el.end) } as T;
+    case 'connector':
+      // Attached ends are re-routed from their elements; only free ends travel with the move.
+      return {
+        ...el,
+        start: el.start.elementId ? el.start : { ...el.start, point: move(el.start.point) },
+        end: el.end.elementId ? el.end : { ...el.end, point: move(el.end.point) },
+        points: el.points.map(move),
+      } as T;
+    default:
+      return { ...el, x: el.x + dx, y: el.y + dy } as T;
+  }
+};
+
+// Maps an element from one bounding box onto another, e.g. while resizing a selection.
+export const scaleElement = <T extends BoardElement>(element: T, from: Bounds, to: Bounds): T => {
+  const sx = from.width === 0 ? 1 : to.width / from.width;
+  const sy = from.height === 0 ? 1 : to.height / from.height;
+  const map = (p: Point) => ({ ...p, x: to.x + (p.x - from.x) * sx, y: to.y + (p.y - from.y) * sy });
+  const el = element as BoardElement;
+  switch (el.type) {
+    case 'path':
+      return { ...el, points: el.points.map(map) } as T;
+    case 'line':
+    case 'arrow':
+      return { ...el, start: map(el.start), end: map(el.end) } as T;
+    case 'connector':
+      return {
+        ...el,
+        start: { ...el.start, point: map(el.start.point) },
+        end: { ...el.end, point: map(el.end.point) },
+        points: el.points.map(map),
+      } as T;
+    default: {
+      const topLeft = map({ x: el.x, y: el.y });
+      return { ...el, x: topLeft.x, y: topLeft.y, width: el.width * sx, height: el.height * sy } as T;
+    }
+  }
+};
+
+// Turns an element by `angle` radians around `pivot`.
+export const rotateElement = <T extends BoardElement>(element: T, pivot: Point, angle: number): T => {
+  const turn = (p: Point) => rotatePoint(p, pivot, angle);
+  const el = element as BoardElement;
+  switch (el.type) {
+    case 'path':
+      return { ...el, points: el.points.map(turn) } as T;
+    case 'line':
+    case 'arrow':
+      return { ...el, start: turn(el.start), end: turn(el.end) } as T;
+    case 'connector':
+      return {
+        ...el,
+        start: el.start.elementId ? el.start : { ...el.start, point: turn(el.start.point) },
+        end: el.end.elementId ? el.end : { ...el.end, point: turn(el.end.point) },
+        points: el.points.map(turn),
+      } as T;
+    default: {
+      const center = turn(getBoundsCenter(getElementBounds(el)));
+      return { ...el, x: center.x - el.width / 2, y: center.y - el.height / 2, rotation: getElementRotation(el) + angle } as T;
+    }
+  }
+};
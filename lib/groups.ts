@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardElement } from '../types';
+
+/**
+ * Which group a click on `element` should select. Outside of any group that is the element's
+ * outermost group; once the user has drilled into `editingGroupId` it is the next group inside it,
+ * or null when the element itself should be selected.
+ */
+export const getSelectableGroupId = (element: BoardElement, editingGroupId: string | null): string | null => {
+  const groupIds = element.groupIds ?? [];
+  const index = editingGroupId ? groupIds.indexOf(editingGroupId) : -1;
+  if (index === -1) return groupIds[groupIds.length - 1] ?? null;
+  return index > 0 ? groupIds[index - 1] : null;
+};
+
+export const getGroupMemberIds = (elements: BoardElement[], groupId: string): string[] => {
+  return elements.filter(el => el.groupIds?.includes(groupId)).map(el => el.id);
+};
+
+// Expands a hit element to everything that is selected along with it at the current drill-in level.
+export const getSelectionForElement = (elements: BoardElement[], element: BoardElement, editingGroupId: string | null): string[] => {
+  const groupId = getSelectableGroupId(element, editingGroupId);
+  return groupId ? getGroupMemberIds(elements, groupId) : [element.id];
+};
+
+// Wraps the selection in a new group, nested inside the group being edited if there is one.
+export const groupElements = (selection: BoardElement[], editingGroupId: string | null): BoardElement[] => {
+  const groupId = uuidv4();
+  return selection.map(el => {
+    const groupIds = [...(el.groupIds ?? [])];
+    const index = editingGroupId ? groupIds.indexOf(editingGroupId) : -1;
+    groupIds.splice(index === -1 ? groupIds.length : index, 0, groupId);
+    return { ...el, groupIds };
+  });
+};
+
+// Dissolves the group each selected element was selected through, leaving nested groups intact.
+export const ungroupElements = (selection: BoardElement[], editingGroupId: string | null): BoardElement[] => {
+  return selection.flatMap(el => {
+    const groupId = getSelectableGroupId(el, editingGroupId);
+    return groupId ? [{ ...el, groupIds: el.groupIds!.filter(id => id !== groupId) }] : [];
+  });
+};
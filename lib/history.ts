@@ -0,0 +1,102 @@
+import { BoardElement, ElementChanges, ElementUpsert, HistoryStep } from '../types';
+import { detachConnectors, rerouteConnectors } from './connectors';
+import { diffFields } from './crdt';
+
+// How many of their own operations a user can undo.
+export const MAX_UNDO_STEPS = 100;
+
+const getAnchor = (elements: BoardElement[], index: number): string | null => index > 0 ? elements[index - 1].id : null;
+
+/**
+ * The changes that turn `from` into `to`, covering only the elements that differ between them and,
+ * for elements on both sides, only the fields that differ.
+ */
+export const diffElements = (from: BoardElement[], to: BoardElement[]): ElementChanges => {
+  const fromById = new Map(from.map(el => [el.id, el]));
+  const toIds = new Set(to.map(el => el.id));
+  // Stacking is compared among the elements both sides share, so adding or deleting an element
+  // doesn't count as moving its neighbours.
+  const sharedFrom = from.filter(el => toIds.has(el.id));
+  const sharedTo = to.filter(el => fromById.has(el.id));
+  const previousFrom = new Map(sharedFrom.map((el, i) => [el.id, getAnchor(sharedFrom, i)]));
+  const previousTo = new Map(sharedTo.map((el, i) => [el.id, getAnchor(sharedTo, i)]));
+
+  const upserts: ElementChanges['upserts'] = [];
+  to.forEach((el, i) => {
+    const before = fromById.get(el.id);
+    const moved = !before || previousFrom.get(el.id) !== previousTo.get(el.id);
+    const fields = before && before !== el ? diffFields(before, el) : null;
+    if (!moved && !fields && before) return;
+    upserts.push({
+      id: el.id,
+      ...(before ? fields : { element: el }),
+      ...(moved ? { after: getAnchor(to, i) } : {}),
+    });
+  });
+  return { upserts, deletes: from.filter(el => !toIds.has(el.id)).map(el => el.id) };
+};
+
+// An element with only the upsert's fields changed, so others' edits to the rest of it are kept.
+const patchElement = (element: BoardElement, { set, unset }: ElementUpsert): BoardElement => {
+  if (!set && !unset) return element;
+  const patched: Record<string, any> = { ...element, ...set };
+  unset?.forEach(key => delete patched[key]);
+  return patched as BoardElement;
+};
+
+/**
+ * Applies changes made on another copy of the board. Upserts are applied in order, so an element
+ * placed after one that is itself being placed lands above it. A missing anchor leaves an existing
+ * element where it is and puts a new one on top.
+ */
+export const applyElementChanges = (elements: BoardElement[], changes: ElementChanges): BoardElement[] => {
+  let next = detachConnectors(elements.filter(el => !changes.deletes.includes(el.id)), changes.deletes);
+  changes.upserts.forEach(upsert => {
+    const { id, element, after } = upsert;
+    const index = next.findIndex(el => el.id === id);
+    const updated = element ?? (index === -1 ? null : patchElement(next[index], upsert));
+    if (!updated) return;
+    const without = index === -1 ? next : next.filter((_, i) => i !== index);
+    const anchorIndex = after ? without.findIndex(el => el.id === after) : -1;
+    if (after === null || anchorIndex !== -1) {
+      const insertAt = after === null ? 0 : anchorIndex + 1;
+      next = [...without.slice(0, insertAt), updated, ...without.slice(insertAt)];
+    } else {
+      next = index === -1 ? [...next, updated] : next.map((el, i) => i === index ? updated : el);
+    }
+  });
+  return rerouteConnectors(next, changes.upserts.map(upsert => upsert.id));
+};
+
+export const isEmptyChanges = (changes: ElementChanges): boolean => changes.upserts.length === 0 && changes.deletes.length === 0;
+
+/** The step that takes the board from `next` back to `previous`. */
+export const recordHistoryStep = (previous: BoardElement[], next: BoardElement[]): HistoryStep => {
+  const nextIds = new Set(next.map(el => el.id));
+  return {
+    changes: diffElements(next, previous),
+    restores: previous.filter(el => !nextIds.has(el.id)).map(el => el.id),
+  };
+};
+
+// Narrows a step to what still makes sense on the current board. Elements that someone else has
+// deleted since stay deleted, unless bringing them back is what the step is for.
+const rebaseStep = (step: HistoryStep, elements: BoardElement[]): ElementChanges => {
+  const present = new Set(elements.map(el => el.id));
+  return {
+    upserts: step.changes.upserts.filter(upsert => present.has(upsert.id) || (upsert.element && step.restores.includes(upsert.id))),
+    deletes: step.changes.deletes.filter(id => present.has(id)),
+  };
+};
+
+/**
+ * The changes for the next undo or redo from `stack`, and how many steps it uses up. Steps that no
+ * longer change anything because others have edited the same elements are skipped.
+ */
+export const takeHistoryStep = (elements: BoardElement[], stack: HistoryStep[]): { changes: ElementChanges; consumed: number } | null => {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const changes = rebaseStep(stack[i], elements);
+    if (!isEmptyChanges(changes)) return { changes, consumed: stack.length - i };
+  }
+  return null;
+};
@@ -0,0 +1,180 @@
+import React from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ImageElement, ImageUpload, Point, RoomAction } from '../types';
+import { supabase } from './supabase';
+
+const IMAGE_BUCKET = 'meetboard_images';
+// Images are placed no wider than this so large photos don't swamp the board.
+export const MAX_IMAGE_WIDTH = 500;
+// Uploads are downscaled to fit this many pixels on their longest side.
+const MAX_UPLOAD_DIMENSION = 2048;
+// Files this small that already fit are uploaded untouched.
+const COMPRESS_THRESHOLD_BYTES = 300 * 1024;
+const COMPRESS_QUALITY = 0.85;
+// Space between images dropped together.
+const IMAGE_GAP = 20;
+const PLACEHOLDER_SIZE = 160;
+
+interface PreparedImage {
+  blob: Blob;
+  name: string;
+  width: number;
+  height: number;
+}
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This file could not be read as an image.'));
+    };
+    img.src = url;
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> => {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+};
+
+const replaceExtension = (name: string, type: string) => {
+  const extension = type.split('/')[1] ?? 'png';
+  return `${name.replace(/\.[^.]+$/, '') || 'image'}.${extension}`;
+};
+
+/**
+ * Downscales and re-encodes an image before upload. WebP keeps screenshot transparency; browsers
+ * that can't encode it fall back to PNG. GIFs are left alone so animations survive.
+ */
+export const prepareImage = async (file: File): Promise<PreparedImage> => {
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_UPLOAD_DIMENSION / Math.max(img.width, img.height));
+  const original = { blob: file, name: file.name || 'image.png', width: img.width, height: img.height };
+  if (file.type === 'image/gif' || (scale === 1 && file.size <= COMPRESS_THRESHOLD_BYTES)) return original;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const blob = await canvasToBlob(canvas, 'image/webp', COMPRESS_QUALITY);
+  if (!blob || (scale === 1 && blob.size >= file.size)) return original;
+  return { blob, name: replaceExtension(original.name, blob.type), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Uploads an image to room storage and returns its public URL. Goes through a signed upload URL
+ * so the request can report progress, which the storage client's own upload doesn't.
+ */
+export const uploadImage = async (blob: Blob, name: string, onProgress?: (progress: number) => void): Promise<string> => {
+  const { data, error } = await supabase.storage.from(IMAGE_BUCKET).createSignedUploadUrl(`${uuidv4()}-${name}`);
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', blob, name);
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.upload.onprogress = e => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = `Upload failed (${xhr.status})`;
+      try {
+        message = JSON.parse(xhr.responseText).message ?? message;
+      } catch {
+        // Keep the status message.
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error('Network error while uploading.'));
+    xhr.send(body);
+  });
+
+  return supabase.storage.from(IMAGE_BUCKET).getPublicUrl(data.path).data.publicUrl;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Downloads images as data URLs, keyed by source. Storage serves CORS headers, so this works
+ * for cross-origin URLs; images that can't be fetched are left out.
+ */
+export const fetchImageDataUrls = async (sources: string[]): Promise<Map<string, string>> => {
+  const entries = await Promise.all([...new Set(sources)].map(async src => {
+    try {
+      const response = await fetch(src, { mode: 'cors' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return [src, await blobToDataUrl(await response.blob())] as const;
+    } catch (error) {
+      console.error('Error fetching image:', src, error);
+      return null;
+    }
+  }));
+  return new Map(entries.filter((entry): entry is readonly [string, string] => !!entry));
+};
+
+const fitImageSize = ({ width, height }: { width: number; height: number }) => {
+  const scale = width > MAX_IMAGE_WIDTH ? MAX_IMAGE_WIDTH / width : 1;
+  return { width: width * scale, height: height * scale };
+};
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : 'Something went wrong.';
+
+/**
+ * Uploads image files and adds them to the board in a row centered on `point`. Each file shows a
+ * local progress placeholder that becomes the image once uploaded, or shows the error if it fails.
+ */
+export const addImagesToBoard = async (files: File[], point: Point, dispatch: React.Dispatch<RoomAction>) => {
+  const results = await Promise.all(files.map(file => prepareImage(file).then(
+    image => ({ image }),
+    (error: unknown) => ({ error }),
+  )));
+  const sizes = results.map(result => 'image' in result ? fitImageSize(result.image) : { width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE });
+  const rowWidth = sizes.reduce((sum, size) => sum + size.width, 0) + IMAGE_GAP * (sizes.length - 1);
+
+  let x = point.x - rowWidth / 2;
+  const uploads: ImageUpload[] = sizes.map((size, i) => {
+    const upload = { id: uuidv4(), name: files[i].name, x, y: point.y - size.height / 2, ...size, progress: 0 };
+    x += size.width + IMAGE_GAP;
+    return upload;
+  });
+
+  await Promise.all(uploads.map(async (upload, i) => {
+    const result = results[i];
+    if ('error' in result) {
+      dispatch({ type: 'SET_IMAGE_UPLOAD', payload: { ...upload, error: getErrorMessage(result.error) } });
+      return;
+    }
+    const { image } = result;
+    dispatch({ type: 'SET_IMAGE_UPLOAD', payload: upload });
+    try {
+      const src = await uploadImage(image.blob, image.name, progress => {
+        dispatch({ type: 'SET_IMAGE_UPLOAD', payload: { ...upload, progress } });
+      });
+      const element: ImageElement = { id: upload.id, type: 'image', src, x: upload.x, y: upload.y, width: upload.width, height: upload.height };
+      dispatch({ type: 'REMOVE_IMAGE_UPLOAD', payload: { id: upload.id } });
+      dispatch({ type: 'ADD_ELEMENT', payload: { element, select: files.length === 1 } });
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      dispatch({ type: 'SET_IMAGE_UPLOAD', payload: { ...upload, error: getErrorMessage(error) } });
+    }
+  }));
+};
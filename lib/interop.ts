@@ -0,0 +1,19 @@
+import { BOARD_FILE_EXTENSION, BoardFileError, LoadedBoardFile, parseBoardFile } from './boardFile';
+import { EXCALIDRAW_FILE_EXTENSION, fromExcalidraw, isExcalidrawDocument } from './excalidraw';
+import { TLDRAW_FILE_EXTENSION, fromTldraw, isTldrawDocument } from './tldraw';
+
+// File picker filter for everything `readBoardDocument` understands.
+export const OPENABLE_FILE_TYPES = [BOARD_FILE_EXTENSION, EXCALIDRAW_FILE_EXTENSION, TLDRAW_FILE_EXTENSION, '.json', 'application/json'].join(',');
+
+/** Opens a saved board, an Excalidraw drawing or a tldraw document, whichever `text` turns out to be. */
+export const readBoardDocument = (text: string): LoadedBoardFile => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new BoardFileError('This file is not valid JSON.');
+  }
+  if (isExcalidrawDocument(doc)) return fromExcalidraw(doc);
+  if (isTldrawDocument(doc)) return fromTldraw(doc);
+  return parseBoardFile(text);
+};
@@ -0,0 +1,11 @@
+import { LaserPoint } from '../types';
+
+// How long a laser trail stays visible after it was drawn.
+export const LASER_FADE_MS = 1000;
+
+/** Adds points to a peer's laser trail and drops the ones that have already faded out. */
+export const appendLaserPoints = (trail: LaserPoint[], points: LaserPoint[]): LaserPoint[] => {
+  if (points.length === 0) return trail;
+  const cutoff = points[points.length - 1].time - LASER_FADE_MS;
+  return [...trail, ...points].filter(p => p.time >= cutoff);
+};
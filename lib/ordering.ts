@@ -0,0 +1,34 @@
+import { BoardElement, ZOrderDirection } from '../types';
+
+/**
+ * Moves the given elements through the drawing order. Selected elements keep their relative
+ * order, and the result only depends on the input list, so every peer and every replay of the
+ * event log ends up with the same stacking.
+ */
+export const reorderElements = (elements: BoardElement[], ids: string[], direction: ZOrderDirection): BoardElement[] => {
+  const isSelected = (el: BoardElement) => ids.includes(el.id);
+  switch (direction) {
+    case 'front':
+      return [...elements.filter(el => !isSelected(el)), ...elements.filter(isSelected)];
+    case 'back':
+      return [...elements.filter(isSelected), ...elements.filter(el => !isSelected(el))];
+    case 'forward': {
+      const result = [...elements];
+      for (let i = result.length - 2; i >= 0; i--) {
+        if (isSelected(result[i]) && !isSelected(result[i + 1])) {
+          [result[i], result[i + 1]] = [result[i + 1], result[i]];
+        }
+      }
+      return result;
+    }
+    case 'backward': {
+      const result = [...elements];
+      for (let i = 1; i < result.length; i++) {
+        if (isSelected(result[i]) && !isSelected(result[i - 1])) {
+          [result[i], result[i - 1]] = [result[i - 1], result[i]];
+        }
+      }
+      return result;
+    }
+  }
+};
@@ -0,0 +1,94 @@
+/// <reference types="vite/client" />
+import React from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { GlobalWorkerOptions, PDFDocumentProxy, PDFPageProxy, getDocument } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ImageUpload, PageElement, Point, RoomAction } from '../types';
+import { uploadImage } from './images';
+
+// Bundled with the app so the worker always matches the installed pdfjs-dist.
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Width of an imported page on the board; heights follow each page's aspect ratio.
+const PAGE_WIDTH = 800;
+const PAGE_GAP = 40;
+// Pages are rasterized at this multiple of their board size so they stay sharp when zoomed in.
+const PAGE_RENDER_SCALE = 2;
+const PAGE_QUALITY = 0.85;
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+const renderPage = async (page: PDFPageProxy, width: number): Promise<Blob> => {
+  const viewport = page.getViewport({ scale: (width * PAGE_RENDER_SCALE) / page.getViewport({ scale: 1 }).width });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const ctx = canvas.getContext('2d')!;
+  // PDFs assume white paper; without this, transparent pages show the board through them.
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', PAGE_QUALITY));
+  if (!blob) throw new Error('Could not render this page.');
+  return blob;
+};
+
+/**
+ * Renders every page of a PDF to an image and lays the pages out in a column whose top is centered
+ * on `point`. Pages arrive locked and are added together as one undoable step once all have
+ * uploaded; pages that fail keep their placeholder showing the error.
+ */
+export const importPdfToBoard = async (file: File, point: Point, dispatch: React.Dispatch<RoomAction>) => {
+  const documentName = file.name.replace(/\.pdf$/i, '') || 'Document';
+  let pdf: PDFDocumentProxy | null = null;
+  let pages: PDFPageProxy[];
+  try {
+    const loaded = await getDocument({ data: await file.arrayBuffer() }).promise;
+    pdf = loaded;
+    // Truncated files can open and then fail on their pages.
+    pages = await Promise.all(Array.from({ length: loaded.numPages }, (_, i) => loaded.getPage(i + 1)));
+  } catch (error) {
+    console.error('Error reading PDF:', error);
+    pdf?.destroy();
+    dispatch({
+      type: 'SET_IMAGE_UPLOAD',
+      payload: { id: uuidv4(), name: file.name, x: point.x - PAGE_WIDTH / 2, y: point.y, width: PAGE_WIDTH, height: 200, progress: 0, error: 'This file could not be read as a PDF.' },
+    });
+    return;
+  }
+
+  let y = point.y;
+  const uploads: ImageUpload[] = pages.map((page, i) => {
+    const size = page.getViewport({ scale: 1 });
+    const height = (PAGE_WIDTH * size.height) / size.width;
+    const upload = { id: uuidv4(), name: `${documentName} – page ${i + 1}`, x: point.x - PAGE_WIDTH / 2, y, width: PAGE_WIDTH, height, progress: 0 };
+    y += height + PAGE_GAP;
+    return upload;
+  });
+  uploads.forEach(upload => dispatch({ type: 'SET_IMAGE_UPLOAD', payload: upload }));
+
+  // One page at a time keeps memory flat for long documents.
+  const imported: PageElement[] = [];
+  for (const [i, upload] of uploads.entries()) {
+    try {
+      const blob = await renderPage(pages[i], PAGE_WIDTH);
+      const src = await uploadImage(blob, `${documentName}-page-${i + 1}.webp`, progress => {
+        dispatch({ type: 'SET_IMAGE_UPLOAD', payload: { ...upload, progress } });
+      });
+      imported.push({
+        id: upload.id, type: 'page', src, x: upload.x, y: upload.y, width: upload.width, height: upload.height,
+        documentName, pageNumber: i + 1, locked: true,
+      });
+    } catch (error) {
+      console.error('Error importing PDF page:', error);
+      dispatch({ type: 'SET_IMAGE_UPLOAD', payload: { ...upload, error: error instanceof Error ? error.message : 'Something went wrong.' } });
+    }
+    pages[i].cleanup();
+  }
+  pdf.destroy();
+
+  imported.forEach(page => dispatch({ type: 'REMOVE_IMAGE_UPLOAD', payload: { id: page.id } }));
+  if (imported.length > 0) {
+    dispatch({ type: 'ADD_ELEMENTS', payload: { elements: imported, select: false } });
+  }
+};
@@ -0,0 +1,36 @@
+import { Tool } from '../types';
+
+// Cursor, tool and selection updates are batched so a fast pointer doesn't exceed the realtime rate
+// limit. Peers' cursors glide over the same interval, so they keep moving between updates.
+export const PRESENCE_BROADCAST_INTERVAL_MS = 50;
+// Cursors of people who haven't moved for this long are hidden; their selections stay outlined.
+export const PRESENCE_IDLE_MS = 10000;
+
+const PRESENCE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+// Shown next to a peer's name, except for the select tool.
+const TOOL_NAMES: Record<Tool, string> = {
+  [Tool.Select]: 'Select',
+  [Tool.Hand]: 'Pan',
+  [Tool.Pen]: 'Pen',
+  [Tool.Highlighter]: 'Highlighter',
+  [Tool.Laser]: 'Laser',
+  [Tool.Eraser]: 'Eraser',
+  [Tool.Rectangle]: 'Rectangle',
+  [Tool.Circle]: 'Circle',
+  [Tool.Shape]: 'Shape',
+  [Tool.Line]: 'Line',
+  [Tool.Arrow]: 'Arrow',
+  [Tool.Connector]: 'Connector',
+  [Tool.Text]: 'Text',
+  [Tool.StickyNote]: 'Sticky note',
+};
+
+/** A color for a participant that is the same on everyone's screen. */
+export const getPresenceColor = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+export const getCursorLabel = (name: string, tool: Tool): string => tool === Tool.Select ? name : `${name} · ${TOOL_NAMES[tool] ?? tool}`;
@@ -0,0 +1,124 @@
+import { Point, ShapeElement, ShapeKind } from '../types';
+import { Bounds } from './geometry';
+
+export const SHAPE_KINDS: { id: ShapeKind; label: string }[] = [
+  { id: 'diamond', label: 'Diamond' },
+  { id: 'triangle', label: 'Triangle' },
+  { id: 'rounded-rectangle', label: 'Rounded rectangle' },
+  { id: 'hexagon', label: 'Hexagon' },
+  { id: 'star', label: 'Star' },
+  { id: 'cloud', label: 'Cloud' },
+  { id: 'callout', label: 'Speech callout' },
+];
+
+// The share of a callout's height taken by its bubble; the rest is the tail.
+const CALLOUT_BODY_RATIO = 0.75;
+const CLOUD_BUMPS = 9;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const polygon = (points: Point[]): string => {
+  return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${round(p.x)} ${round(p.y)}`).join(' ') + ' Z';
+};
+
+const pointOnEllipse = (cx: number, cy: number, rx: number, ry: number, angle: number): Point => ({
+  x: cx + rx * Math.cos(angle),
+  y: cy + ry * Math.sin(angle),
+});
+
+const roundedRectangle = ({ x, y, width, height }: Bounds, radius: number): string => {
+  const r = Math.min(radius, width / 2, height / 2);
+  return [
+    `M ${round(x + r)} ${round(y)}`,
+    `H ${round(x + width - r)}`,
+    `A ${round(r)} ${round(r)} 0 0 1 ${round(x + width)} ${round(y + r)}`,
+    `V ${round(y + height - r)}`,
+    `A ${round(r)} ${round(r)} 0 0 1 ${round(x + width - r)} ${round(y + height)}`,
+    `H ${round(x + r)}`,
+    `A ${round(r)} ${round(r)} 0 0 1 ${round(x)} ${round(y + height - r)}`,
+    `V ${round(y + r)}`,
+    `A ${round(r)} ${round(r)} 0 0 1 ${round(x + r)} ${round(y)}`,
+    'Z',
+  ].join(' ');
+};
+
+// Bumps are quadratic curves between points on a shrunken ellipse, pulled outwards so their
+// peaks touch the element's bounds.
+const cloud = (cx: number, cy: number, rx: number, ry: number): string => {
+  const step = (2 * Math.PI) / CLOUD_BUMPS;
+  const base = 0.8;
+  const pull = (1 - 0.5 * base * Math.cos(step / 2)) / 0.5;
+  const start = pointOnEllipse(cx, cy, rx * base, ry * base, -Math.PI / 2);
+  const segments = [`M ${round(start.x)} ${round(start.y)}`];
+  for (let i = 0; i < CLOUD_BUMPS; i++) {
+    const angle = -Math.PI / 2 + i * step;
+    const control = pointOnEllipse(cx, cy, rx * pull, ry * pull, angle + step / 2);
+    const end = pointOnEllipse(cx, cy, rx * base, ry * base, angle + step);
+    segments.push(`Q ${round(control.x)} ${round(control.y)} ${round(end.x)} ${round(end.y)}`);
+  }
+  return segments.join(' ') + ' Z';
+};
+
+/**
+ * SVG path data for a preset shape filling `bounds`. The same string drives canvas rendering
+ * (via Path2D) and SVG output, so every renderer draws identical outlines.
+ */
+export const getShapePathData = (shape: ShapeKind, bounds: Bounds): string => {
+  const { x, y, width, height } = bounds;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  switch (shape) {
+    case 'diamond':
+      return polygon([{ x: cx, y }, { x: x + width, y: cy }, { x: cx, y: y + height }, { x, y: cy }]);
+    case 'triangle':
+      return polygon([{ x: cx, y }, { x: x + width, y: y + height }, { x, y: y + height }]);
+    case 'rounded-rectangle':
+      return roundedRectangle(bounds, Math.min(width, height) * 0.2);
+    case 'hexagon':
+      return polygon([
+        { x: x + width * 0.25, y }, { x: x + width * 0.75, y }, { x: x + width, y: cy },
+        { x: x + width * 0.75, y: y + height }, { x: x + width * 0.25, y: y + height }, { x, y: cy },
+      ]);
+    case 'star': {
+      const points: Point[] = [];
+      for (let i = 0; i < 10; i++) {
+        const scale = i % 2 === 0 ? 1 : 0.4;
+        points.push(pointOnEllipse(cx, cy, (width / 2) * scale, (height / 2) * scale, -Math.PI / 2 + (i * Math.PI) / 5));
+      }
+      return polygon(points);
+    }
+    case 'cloud':
+      return cloud(cx, cy, width / 2, height / 2);
+    case 'callout': {
+      const bodyBottom = y + height * CALLOUT_BODY_RATIO;
+      return polygon([
+        { x, y }, { x: x + width, y }, { x: x + width, y: bodyBottom },
+        { x: x + width * 0.45, y: bodyBottom }, { x: x + width * 0.15, y: y + height },
+        { x: x + width * 0.25, y: bodyBottom }, { x, y: bodyBottom },
+      ]);
+    }
+  }
+};
+
+export const getShapePath = (element: ShapeElement): string => {
+  return getShapePathData(element.shape, { x: element.x, y: element.y, width: element.width, height: element.height });
+};
+
+/** The area a shape's label is laid out in, kept inside the outline for pointed and curved presets. */
+export const getShapeLabelBounds = (element: ShapeElement): Bounds => {
+  const { x, y, width, height } = element;
+  switch (element.shape) {
+    case 'diamond':
+    case 'star':
+    case 'cloud':
+      return { x: x + width * 0.25, y: y + height * 0.25, width: width * 0.5, height: height * 0.5 };
+    case 'triangle':
+      return { x: x + width * 0.25, y: y + height * 0.45, width: width * 0.5, height: height * 0.5 };
+    case 'hexagon':
+      return { x: x + width * 0.2, y, width: width * 0.6, height };
+    case 'callout':
+      return { x, y, width, height: height * CALLOUT_BODY_RATIO };
+    default:
+      return { x, y, width, height };
+  }
+};
@@ -0,0 +1,53 @@
+import { Point } from '../types';
+import { Bounds } from './geometry';
+
+export const GRID_SIZE = 20;
+
+// A line drawn while an edge or center lines up with another element.
+export interface Guide {
+  from: Point;
+  to: Point;
+}
+
+export const snapToGrid = (value: number, size = GRID_SIZE): number => Math.round(value / size) * size;
+
+const getXStops = (b: Bounds) => [b.x, b.x + b.width / 2, b.x + b.width];
+const getYStops = (b: Bounds) => [b.y, b.y + b.height / 2, b.y + b.height];
+
+// The smallest shift (within `threshold`) that lines one of `moving` up with one of `targets`.
+const findSnapDelta = (moving: number[], targets: number[], threshold: number): number | null => {
+  let best: number | null = null;
+  moving.forEach(m => targets.forEach(t => {
+    const delta = t - m;
+    if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+  }));
+  return best;
+};
+
+/**
+ * Snaps moving bounds to the edges and centers of other elements. Returns the offset to apply
+ * on each axis (0 when nothing is in range) and the guides that show what it lined up with.
+ */
+export const getAlignmentSnap = (moving: Bounds, others: Bounds[], threshold: number): { dx: number; dy: number; guides: Guide[] } => {
+  const dx = findSnapDelta(getXStops(moving), others.flatMap(getXStops), threshold) ?? 0;
+  const dy = findSnapDelta(getYStops(moving), others.flatMap(getYStops), threshold) ?? 0;
+  const snapped = { ...moving, x: moving.x + dx, y: moving.y + dy };
+  const guides: Guide[] = [];
+  others.forEach(other => {
+    getXStops(snapped).forEach(x => {
+      if (getXStops(other).some(ox => Math.abs(ox - x) < 0.5)) {
+        const top = Math.min(snapped.y, other.y);
+        const bottom = Math.max(snapped.y + snapped.height, other.y + other.height);
+        guides.push({ from: { x, y: top }, to: { x, y: bottom } });
+      }
+    });
+    getYStops(snapped).forEach(y => {
+      if (getYStops(other).some(oy => Math.abs(oy - y) < 0.5)) {
+        const left = Math.min(snapped.x, other.x);
+        const right = Math.max(snapped.x + snapped.width, other.x + other.width);
+        guides.push({ from: { x: left, y }, to: { x: right, y } });
+      }
+    });
+  });
+  return { dx, dy, guides };
+};
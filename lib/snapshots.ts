@@ -0,0 +1,119 @@
+import { CrdtDocument, EMPTY_DOCUMENT, pruneDeletedRecords } from './crdt';
+import { BoardEvent, applyBoardEvent } from './boardDocument';
+import { supabase } from './supabase';
+
+// How often the host checks whether the room's events are due to be compacted into a snapshot.
+export const SNAPSHOT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+// Fewer events than this since the last snapshot aren't worth a new one.
+const SNAPSHOT_MIN_EVENTS = 200;
+// Events this recent are left for the next snapshot: a row can still be committing after one with
+// a higher id is already visible, and a snapshot past it would hide it from everyone joining later.
+// Measured by the database's clock, which is what sets the events' created_at.
+const SNAPSHOT_SETTLE_SECONDS = 2 * 60;
+
+// A saved event with who made it and when.
+export interface SavedBoardEvent extends BoardEvent {
+  id: number;
+  user_id: string | null;
+  created_at: string;
+  authorName?: string;
+}
+
+// The board as of the latest snapshot and the events saved after it.
+export interface BoardHistory {
+  base: CrdtDocument;
+  events: SavedBoardEvent[];
+}
+
+interface BoardSnapshot {
+  id: number;
+  board: CrdtDocument;
+  last_event_id: number;
+}
+
+const fetchLatestSnapshot = async (roomId: string): Promise<BoardSnapshot | null> => {
+  const { data, error } = await supabase
+    .from('meetboard_whiteboard_snapshots')
+    .select('id, board, last_event_id')
+    .eq('room_id', roomId)
+    .order('id', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
+
+// Events are replayed in the order they were saved, which rows from before the CRDT still rely on.
+const fetchEventsAfter = async (roomId: string, afterId: number): Promise<SavedBoardEvent[]> => {
+  const { data, error } = await supabase.from('meetboard_whiteboard_events').select('*').eq('room_id', roomId).gt('id', afterId).order('id');
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchSettledEventsAfter = async (roomId: string, afterId: number): Promise<SavedBoardEvent[]> => {
+  const { data, error } = await supabase.rpc('meetboard_settled_whiteboard_events', {
+    p_room_id: roomId,
+    p_after_id: afterId,
+    p_settle_seconds: SNAPSHOT_SETTLE_SECONDS,
+  });
+  if (error) throw error;
+  return data ?? [];
+};
+
+/** The room's board: its latest snapshot with the events saved since merged in. */
+export const loadBoard = async (roomId: string): Promise<CrdtDocument> => {
+  const snapshot = await fetchLatestSnapshot(roomId);
+  const events = await fetchEventsAfter(roomId, snapshot?.last_event_id ?? 0);
+  return events.reduce(applyBoardEvent, snapshot?.board ?? EMPTY_DOCUMENT);
+};
+
+/** What the board's history still covers, with the author of each event. Older events are only in the snapshot. */
+export const loadBoardHistory = async (roomId: string): Promise<BoardHistory> => {
+  const snapshot = await fetchLatestSnapshot(roomId);
+  const { data, error } = await supabase
+    .from('meetboard_whiteboard_events')
+    .select('*, profiles(full_name)')
+    .eq('room_id', roomId)
+    .gt('id', snapshot?.last_event_id ?? 0)
+    .order('id');
+  if (error) throw error;
+  const events = (data ?? []).map(({ profiles, ...event }) => {
+    const profile = (Array.isArray(profiles) ? profiles[0] : profiles) as { full_name: string } | null;
+    return { ...event, authorName: profile?.full_name } as SavedBoardEvent;
+  });
+  return { base: snapshot?.board ?? EMPTY_DOCUMENT, events };
+};
+
+/**
+ * Folds the events since the latest snapshot into a new one, then deletes what the latest snapshot
+ * already covered. Deleting a snapshot behind means someone who loaded the latest one while this ran
+ * still finds the events after it. Returns whether a snapshot was taken.
+ */
+export const compactBoard = async (roomId: string): Promise<boolean> => {
+  const latest = await fetchLatestSnapshot(roomId);
+  const afterId = latest?.last_event_id ?? 0;
+  const { count, error: countError } = await supabase
+    .from('meetboard_whiteboard_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('room_id', roomId)
+    .gt('id', afterId);
+  if (countError) throw countError;
+  if ((count ?? 0) < SNAPSHOT_MIN_EVENTS) return false;
+
+  const events = await fetchSettledEventsAfter(roomId, afterId);
+  if (events.length === 0) return false;
+  const board = pruneDeletedRecords(events.reduce(applyBoardEvent, latest?.board ?? EMPTY_DOCUMENT));
+  const { error: insertError } = await supabase
+    .from('meetboard_whiteboard_snapshots')
+    .insert({ room_id: roomId, board, last_event_id: events[events.length - 1].id });
+  if (insertError) throw insertError;
+
+  if (latest) {
+    const [eventsRes, snapshotsRes] = await Promise.all([
+      supabase.from('meetboard_whiteboard_events').delete().eq('room_id', roomId).lte('id', latest.last_event_id),
+      supabase.from('meetboard_whiteboard_snapshots').delete().eq('room_id', roomId).lt('id', latest.id),
+    ]);
+    if (eventsRes.error) throw eventsRes.error;
+    if (snapshotsRes.error) throw snapshotsRes.error;
+  }
+  return true;
+};
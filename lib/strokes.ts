@@ -0,0 +1,91 @@
+import { Point, StrokePoint } from '../types';
+import { distanceToSegment } from './geometry';
+
+// Pressure reported by devices that cannot sense it (mice), and assumed for older strokes.
+export const DEFAULT_PRESSURE = 0.5;
+
+// Samples taken along each fitted curve segment when rendering.
+const CURVE_STEPS = 6;
+
+const getPressure = (point: StrokePoint) => point.pressure ?? DEFAULT_PRESSURE;
+
+/** Stroke width at a point: thinner under light pressure, up to 1.6x at full pressure. */
+export const getPressureWidth = (point: StrokePoint, strokeWidth: number): number => {
+  return strokeWidth * (0.4 + 1.2 * getPressure(point));
+};
+
+/**
+ * Ramer–Douglas–Peucker simplification: drops points that lie within `tolerance` of the line
+ * through their neighbours. Pressure changes are kept by treating them as extra distance.
+ */
+export const simplifyStroke = (points: StrokePoint[], tolerance: number, strokeWidth = 0): StrokePoint[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const pressureOffset = Math.abs(getPressure(points[i]) - (getPressure(first) + getPressure(last)) / 2) * strokeWidth;
+    const distance = distanceToSegment(points[i], first, last) + pressureOffset;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+  if (maxDistance <= tolerance) return [first, last];
+  const left = simplifyStroke(points.slice(0, index + 1), tolerance, strokeWidth);
+  const right = simplifyStroke(points.slice(index), tolerance, strokeWidth);
+  return [...left.slice(0, -1), ...right];
+};
+
+// Uniform Catmull-Rom interpolation between p1 and p2, with pressure blended linearly.
+const catmullRom = (p0: StrokePoint, p1: StrokePoint, p2: StrokePoint, p3: StrokePoint, t: number): StrokePoint => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const blend = (a: number, b: number, c: number, d: number) =>
+    0.5 * (2 * b + (-a + c) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (-a + 3 * b - 3 * c + d) * t3);
+  return {
+    x: blend(p0.x, p1.x, p2.x, p3.x),
+    y: blend(p0.y, p1.y, p2.y, p3.y),
+    pressure: getPressure(p1) + (getPressure(p2) - getPressure(p1)) * t,
+  };
+};
+
+/** Fits a smooth curve through the stored points and samples it for rendering. */
+export const smoothStroke = (points: StrokePoint[]): StrokePoint[] => {
+  if (points.length < 3) return points;
+  const result: StrokePoint[] = [points[0]];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[Math.max(0, i - 1)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(points.length - 1, i + 2)];
+    for (let step = 1; step <= CURVE_STEPS; step++) {
+      result.push(catmullRom(p0, p1, p2, p3, step / CURVE_STEPS));
+    }
+  }
+  return result;
+};
+
+/**
+ * The filled outline of a variable-width stroke: the left edge forwards, then the right edge
+ * backwards. Ends are left flat; callers add round caps.
+ */
+export const getStrokeOutline = (points: StrokePoint[], strokeWidth: number): Point[] => {
+  if (points.length < 2) return [];
+  const left: Point[] = [];
+  const right: Point[] = [];
+  points.forEach((point, i) => {
+    const prev = points[Math.max(0, i - 1)];
+    const next = points[Math.min(points.length - 1, i + 1)];
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const half = getPressureWidth(point, strokeWidth) / 2;
+    const nx = (-dy / length) * half;
+    const ny = (dx / length) * half;
+    left.push({ x: point.x + nx, y: point.y + ny });
+    right.push({ x: point.x - nx, y: point.y - ny });
+  });
+  return [...left, ...right.reverse()];
+};
@@ -0,0 +1,27 @@
+import { BoardElement, StrokeStyle } from '../types';
+
+export type StrokedElement = Extract<BoardElement, { strokeWidth: number }>;
+export type FillableElement = Extract<BoardElement, { type: 'rectangle' | 'circle' | 'shape' }>;
+
+export const isStroked = (element: BoardElement): element is StrokedElement => 'strokeWidth' in element;
+
+export const isFillable = (element: BoardElement): element is FillableElement => {
+  return element.type === 'rectangle' || element.type === 'circle' || element.type === 'shape';
+};
+
+/** Canvas/SVG dash segments for a stroke style, scaled so they stay visible at any stroke width. */
+export const getDashPattern = (strokeStyle: StrokeStyle | undefined, strokeWidth: number): number[] => {
+  switch (strokeStyle) {
+    case 'dashed':
+      return [strokeWidth * 3, strokeWidth * 2];
+    case 'dotted':
+      // Round caps turn near-zero dashes into dots.
+      return [0.1, strokeWidth * 2];
+    default:
+      return [];
+  }
+};
+
+export const hasFill = (element: BoardElement): boolean => {
+  return isFillable(element) && !!element.fillColor && element.fillColor !== 'transparent';
+};
@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardElement, ConnectorElement, LineElement, RectangleElement, ShapeElement, ShapeKind, StickyNoteElement, TextElement } from '../types';
+import { supabase } from './supabase';
+import { routeImportedConnectors } from './connectors';
+import { textToHtml } from './clipboard';
+
+// Named sets of elements to start a board from. Built-in templates are laid out around the origin;
+// they're copied under new ids wherever they're inserted.
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  elements: BoardElement[];
+  // Personal templates are saved by a user and can be deleted by them.
+  isPersonal: boolean;
+}
+
+// Mid-tone colors so template chrome reads on both the light and the dark board.
+const FRAME_COLOR = '#64748b';
+const HEADING_COLOR = '#475569';
+const NOTE_YELLOW = '#FFF9B1';
+const NOTE_GREEN = '#d9f99d';
+const NOTE_RED = '#fecaca';
+const NOTE_BLUE = '#bfdbfe';
+const NOTE_SIZE = 160;
+
+const frame = (x: number, y: number, width: number, height: number, fillColor = 'transparent'): RectangleElement => ({
+  id: uuidv4(), type: 'rectangle', x, y, width, height, color: FRAME_COLOR, strokeWidth: 2, fillColor,
+});
+
+const heading = (x: number, y: number, width: number, text: string, fontSize = 24): TextElement => ({
+  id: uuidv4(), type: 'text', x, y, width, height: fontSize * 1.3, text: textToHtml(text),
+  color: HEADING_COLOR, fontSize, fontFamily: 'Poppins', textAlign: 'center',
+});
+
+const note = (x: number, y: number, text: string, color = NOTE_YELLOW): StickyNoteElement => ({
+  id: uuidv4(), type: 'note', x, y, width: NOTE_SIZE, height: NOTE_SIZE, text, color,
+});
+
+const shape = (shapeKind: ShapeKind, x: number, y: number, width: number, height: number, label: string, fillColor = 'transparent'): ShapeElement => ({
+  id: uuidv4(), type: 'shape', shape: shapeKind, x, y, width, height, color: FRAME_COLOR, strokeWidth: 2, fillColor, label,
+});
+
+const divider = (x1: number, x2: number, y: number): LineElement => ({
+  id: uuidv4(), type: 'line', start: { x: x1, y }, end: { x: x2, y }, color: FRAME_COLOR, strokeWidth: 2, strokeStyle: 'dashed',
+});
+
+// Points are filled in when the template's connectors are routed.
+const connect = (from: BoardElement, to: BoardElement, routing: ConnectorElement['routing'] = 'straight'): ConnectorElement => ({
+  id: uuidv4(), type: 'connector', routing, points: [], color: FRAME_COLOR, strokeWidth: 2, arrowhead: 'filled',
+  start: { elementId: from.id, point: { x: 0, y: 0 } },
+  end: { elementId: to.id, point: { x: 0, y: 0 } },
+});
+
+// Framed columns with a heading each, and one starter note in the first.
+const columns = (titles: string[], noteColors: string[], starter: string): BoardElement[] => {
+  const width = 280;
+  const gap = 24;
+  return titles.flatMap((title, i) => {
+    const x = i * (width + gap);
+    const column: BoardElement[] = [frame(x, 0, width, 640), heading(x, 16, width, title)];
+    if (i === 0) column.push(note(x + (width - NOTE_SIZE) / 2, 72, starter, noteColors[i]));
+    return column;
+  });
+};
+
+const retrospective = (): BoardElement[] => [
+  heading(0, -64, 888, 'Sprint Retrospective', 32),
+  ...columns(['Went well', 'To improve', 'Action items'], [NOTE_GREEN, NOTE_RED, NOTE_BLUE], 'Add a note for each thought'),
+];
+
+const kanban = (): BoardElement[] => columns(['Backlog', 'To do', 'In progress', 'Done'], [NOTE_YELLOW], 'Drag cards across as work moves');
+
+const swot = (): BoardElement[] => {
+  const size = 400;
+  const quadrants: [string, string][] = [['Strengths', NOTE_GREEN], ['Weaknesses', NOTE_RED], ['Opportunities', NOTE_BLUE], ['Threats', NOTE_YELLOW]];
+  return [
+    heading(0, -64, size * 2, 'SWOT Analysis', 32),
+    ...quadrants.flatMap(([title, color], i) => {
+      const x = (i % 2) * size;
+      const y = Math.floor(i / 2) * size;
+      return [frame(x, y, size, size, color), heading(x, y + 16, size, title)];
+    }),
+  ];
+};
+
+const userStoryMap = (): BoardElement[] => {
+  const activities = ['Discover', 'Sign up', 'Use the product', 'Share'];
+  const step = NOTE_SIZE + 40;
+  const width = activities.length * step;
+  return [
+    heading(0, -64, width, 'User Story Map', 32),
+    ...activities.flatMap((activity, i) => [
+      note(i * step, 0, activity, NOTE_BLUE),
+      note(i * step, step, `${activity}: first task`),
+    ]),
+    divider(-20, width, step * 2),
+    heading(-20, step * 2 + 8, 200, 'Release 1', 18),
+    divider(-20, width, step * 3),
+    heading(-20, step * 3 + 8, 200, 'Release 2', 18),
+  ];
+};
+
+const flowchart = (): BoardElement[] => {
+  const start = shape('rounded-rectangle', 0, 0, 180, 72, 'Start');
+  const process = shape('rounded-rectangle', 0, 152, 180, 72, 'Do something');
+  const decision = shape('diamond', -10, 304, 200, 120, 'Worked?');
+  const end = shape('rounded-rectangle', 0, 504, 180, 72, 'End');
+  const retry = shape('rounded-rectangle', 280, 328, 180, 72, 'Fix it');
+  return routeImportedConnectors([
+    start, process, decision, end, retry,
+    connect(start, process), connect(process, decision), connect(decision, end),
+    connect(decision, retry, 'elbow'), connect(retry, process, 'elbow'),
+  ]);
+};
+
+export const BUILT_IN_TEMPLATES: BoardTemplate[] = [
+  { id: 'retrospective', name: 'Retrospective', description: 'What went well, what to improve and what to do next.', elements: retrospective(), isPersonal: false },
+  { id: 'kanban', name: 'Kanban', description: 'Columns to move work from backlog to done.', elements: kanban(), isPersonal: false },
+  { id: 'swot', name: 'SWOT analysis', description: 'Strengths, weaknesses, opportunities and threats.', elements: swot(), isPersonal: false },
+  { id: 'user-story-map', name: 'User story map', description: 'Activities across the top, tasks below, sliced into releases.', elements: userStoryMap(), isPersonal: false },
+  { id: 'flowchart', name: 'Flowchart starter', description: 'A process with a decision and a loop back.', elements: flowchart(), isPersonal: false },
+];
+
+export const fetchPersonalTemplates = async (userId: string): Promise<BoardTemplate[]> => {
+  const { data, error } = await supabase
+    .from('meetboard_templates')
+    .select('id, name, elements, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []).map(row => ({
+    id: row.id,
+    name: row.name,
+    description: `Saved ${new Date(row.created_at).toLocaleDateString()}`,
+    elements: row.elements,
+    isPersonal: true,
+  }));
+};
+
+export const savePersonalTemplate = async (userId: string, name: string, elements: BoardElement[]) => {
+  const { error } = await supabase.from('meetboard_templates').insert({ user_id: userId, name, elements });
+  if (error) throw error;
+};
+
+export const deletePersonalTemplate = async (id: string) => {
+  const { error } = await supabase.from('meetboard_templates').delete().eq('id', id);
+  if (error) throw error;
+};
@@ -0,0 +1,255 @@
+import { ArrowheadStyle, BoardElement, Point, ShapeKind, StrokePoint, StrokeStyle, Viewport } from '../types';
+import { BOARD_FILE_TYPE, BOARD_FILE_VERSION, DroppedFeatures, LoadedBoardFile, describeDropped, noteDropped } from './boardFile';
+import { routeImportedConnectors } from './connectors';
+import { textToHtml } from './clipboard';
+import { DEFAULT_VIEWPORT } from './viewport';
+
+// Reads tldraw's `.tldr` documents (records of shapes, assets and bindings). Export isn't offered:
+// tldraw only opens files that carry its exact schema version, which we can't produce reliably.
+export const TLDRAW_FILE_EXTENSION = '.tldr';
+
+const TEXT_LINE_HEIGHT = 1.3;
+const NOTE_SIZE = 200;
+
+// tldraw styles are named; these are its light theme values.
+const palette: Record<string, string> = {
+  black: '#1d1d1d', grey: '#9fa8b2', 'light-violet': '#e085f4', violet: '#ae3ec9', blue: '#4465e9', 'light-blue': '#4ba1f1',
+  yellow: '#f1ac4b', orange: '#e16919', green: '#099268', 'light-green': '#4cb05e', 'light-red': '#f87777', red: '#e03131', white: '#FFFFFF',
+};
+// Pastel fills for notes and filled shapes, in the spirit of our own note and fill colors.
+const tints: Record<string, string> = {
+  black: '#e2e8f0', grey: '#e2e8f0', 'light-violet': '#f5d0fe', violet: '#f5d0fe', blue: '#bfdbfe', 'light-blue': '#bfdbfe',
+  yellow: '#FFF9B1', orange: '#fed7aa', green: '#d9f99d', 'light-green': '#d9f99d', 'light-red': '#fecaca', red: '#fecaca', white: '#FFFFFF',
+};
+const strokeWidths: Record<string, number> = { s: 2, m: 3.5, l: 5, xl: 10 };
+const fontSizes: Record<string, number> = { s: 18, m: 24, l: 36, xl: 44 };
+const fonts: Record<string, string> = { draw: 'Poppins', sans: 'Arial', serif: 'Georgia', mono: 'Courier New' };
+const geoShapes: Record<string, ShapeKind> = { diamond: 'diamond', triangle: 'triangle', hexagon: 'hexagon', star: 'star', cloud: 'cloud' };
+
+export const isTldrawDocument = (doc: any): boolean => typeof doc?.tldrawFileFormatVersion === 'number' && Array.isArray(doc.records);
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const byIndex = (a: { index: string }, b: { index: string }) => a.index < b.index ? -1 : a.index > b.index ? 1 : 0;
+
+// Newer tldraw versions store text as a rich text document rather than a string.
+const richTextToPlain = (node: any): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+  const children: string[] = (node.content ?? []).map(richTextToPlain);
+  return node.type === 'doc' || node.type === 'bulletList' || node.type === 'orderedList' ? children.join('\n') : children.join('');
+};
+
+const readText = (props: any): string => typeof props.text === 'string' ? props.text : richTextToPlain(props.richText);
+
+const strokeStyleFrom = (dash: string): StrokeStyle => dash === 'dashed' || dash === 'dotted' ? dash : 'solid';
+
+const fillFrom = (props: any, dropped: DroppedFeatures): string => {
+  if (!props.fill || props.fill === 'none') return 'transparent';
+  if (props.fill === 'semi') return '#FFFFFF';
+  if (props.fill === 'pattern') noteDropped(dropped, 'Pattern fills (imported as solid)');
+  return tints[props.color] ?? '#FFFFFF';
+};
+
+const arrowheadFrom = (start: string | undefined, end: string | undefined, dropped: DroppedFeatures): { arrowhead: ArrowheadStyle; reversed: boolean } => {
+  const hasStart = !!start && start !== 'none';
+  const hasEnd = !!end && end !== 'none';
+  [hasStart && start, hasEnd && end].forEach(head => {
+    if (head && head !== 'arrow' && head !== 'triangle') noteDropped(dropped, `"${head}" arrowheads`);
+  });
+  if (hasStart && hasEnd) return { arrowhead: 'both', reversed: false };
+  if (!hasStart && !hasEnd) return { arrowhead: 'none', reversed: false };
+  const head = hasEnd ? end : start;
+  return { arrowhead: head === 'arrow' ? 'open' : 'filled', reversed: !hasEnd };
+};
+
+const estimateTextHeight = (text: string, fontSize: number) => text.split('\n').length * fontSize * TEXT_LINE_HEIGHT;
+
+/** Reads the first page of a tldraw document into a board file ready to open. */
+export const fromTldraw = (doc: any): LoadedBoardFile => {
+  const dropped: DroppedFeatures = {};
+  const assets: Record<string, string> = {};
+  const records: any[] = doc.records.filter((record: any) => record && typeof record.id === 'string');
+  const page = records.filter(record => record.typeName === 'page').sort(byIndex)[0];
+  const shapes = records.filter(record => record.typeName === 'shape');
+  const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+  const assetsById = new Map(records.filter(record => record.typeName === 'asset').map(asset => [asset.id, asset]));
+  // Arrow bindings live in their own records in tldraw 2.2 and later, keyed here by arrow and end.
+  const arrowBindings = new Map(records
+    .filter(record => record.typeName === 'binding' && record.type === 'arrow')
+    .map(binding => [`${binding.fromId}:${binding.props?.terminal}`, binding.toId as string]));
+
+  // Shapes are positioned relative to their parent group or frame, and stacked by index within it.
+  const ordered: any[] = [];
+  const visit = (parentId: string) => {
+    shapes.filter(shape => shape.parentId === parentId).sort(byIndex).forEach(shape => {
+      ordered.push(shape);
+      visit(shape.id);
+    });
+  };
+  if (page) visit(page.id);
+  if (shapes.length > ordered.length) noteDropped(dropped, 'Shapes on other pages', shapes.length - ordered.length);
+
+  const placement = (shape: any) => {
+    let x = shape.x ?? 0;
+    let y = shape.y ?? 0;
+    const groupIds: string[] = [];
+    let parent = shapesById.get(shape.parentId);
+    while (parent) {
+      if (parent.rotation) noteDropped(dropped, 'Rotation of groups and frames');
+      if (parent.type === 'group') groupIds.push(parent.id);
+      x += parent.x ?? 0;
+      y += parent.y ?? 0;
+      parent = shapesById.get(parent.parentId);
+    }
+    return {
+      origin: { x, y },
+      base: {
+        id: shape.id as string,
+        ...(groupIds.length ? { groupIds } : {}),
+        ...(shape.rotation ? { rotation: shape.rotation as number } : {}),
+      },
+    };
+  };
+
+  const convert = (shape: any): BoardElement[] => {
+    const props = shape.props ?? {};
+    const { origin, base } = placement(shape);
+    const color = palette[props.color] ?? palette.black;
+    const stroke = {
+      color,
+      strokeWidth: strokeWidths[props.size] ?? strokeWidths.m,
+      opacity: isNumber(shape.opacity) ? shape.opacity : 1,
+      strokeStyle: strokeStyleFrom(props.dash),
+    };
+    const scale = isNumber(props.scale) ? props.scale : 1;
+    const toBoard = (p: Point): Point => ({ x: origin.x + p.x * scale, y: origin.y + p.y * scale });
+    if (shape.isLocked) noteDropped(dropped, 'Shape locks');
+
+    switch (shape.type) {
+      case 'geo': {
+        const box = { ...origin, width: props.w ?? 0, height: (props.h ?? 0) + (props.growY ?? 0) };
+        const text = readText(props);
+        if (props.dash === 'draw') noteDropped(dropped, 'Hand-drawn outlines (imported as solid)');
+        const shapeKind = geoShapes[props.geo];
+        if (shapeKind) {
+          return [{ ...base, type: 'shape', shape: shapeKind, ...box, ...stroke, fillColor: fillFrom(props, dropped), label: text }];
+        }
+        const isEllipse = props.geo === 'ellipse' || props.geo === 'oval';
+        if (!isEllipse && props.geo !== 'rectangle') noteDropped(dropped, `"${props.geo}" shapes (imported as rectangles)`);
+        const outline: BoardElement = { ...base, type: isEllipse ? 'circle' : 'rectangle', ...box, ...stroke, fillColor: fillFrom(props, dropped) };
+        if (!text.trim()) return [outline];
+        // Our rectangles and ellipses have no label, so the label becomes text centered on top.
+        const fontSize = fontSizes[props.size] ?? fontSizes.m;
+        const height = estimateTextHeight(text, fontSize);
+        return [outline, {
+          id: `${shape.id}:label`, ...(base.groupIds ? { groupIds: base.groupIds } : {}), type: 'text',
+          x: box.x, y: box.y + (box.height - height) / 2, width: box.width, height, text: textToHtml(text),
+          color: palette[props.labelColor] ?? color, fontSize, fontFamily: fonts[props.font] ?? 'Poppins', textAlign: 'center',
+        }];
+      }
+      case 'draw':
+      case 'highlight': {
+        const segments: any[] = props.segments ?? [];
+        if (!segments.every(segment => Array.isArray(segment.points))) {
+          noteDropped(dropped, 'Freehand strokes in an unsupported encoding');
+          return [];
+        }
+        if (props.isClosed && props.fill && props.fill !== 'none') noteDropped(dropped, 'Filled freehand shapes');
+        const points: StrokePoint[] = segments.flatMap(segment => segment.points).map((p: any) => ({
+          ...toBoard(p),
+          ...(props.isPen && isNumber(p.z) ? { pressure: p.z } : {}),
+        }));
+        if (points.length === 0) return [];
+        const isHighlighter = shape.type === 'highlight';
+        return [{ ...base, type: 'path', points, ...stroke, ...(isHighlighter ? { strokeWidth: stroke.strokeWidth * 3, isHighlighter } : {}) }];
+      }
+      case 'line': {
+        // tldraw 2 keeps line points in an indexed map; older files call them handles.
+        const points: Point[] = Object.values<any>(props.points ?? props.handles ?? {}).sort(byIndex).map(toBoard);
+        if (points.length < 2) return [];
+        if (props.spline === 'cubic') noteDropped(dropped, 'Curved lines');
+        if (points.length === 2) return [{ ...base, type: 'line', start: points[0], end: points[1], ...stroke }];
+        noteDropped(dropped, 'Multi-point lines (imported as freehand strokes)');
+        return [{ ...base, type: 'path', points, ...stroke }];
+      }
+      case 'arrow': {
+        const { arrowhead, reversed } = arrowheadFrom(props.arrowheadStart, props.arrowheadEnd, dropped);
+        if (props.bend) noteDropped(dropped, 'Curved arrows');
+        if (readText(props).trim()) noteDropped(dropped, 'Arrow labels');
+        // Before 2.2 a bound end was { type: 'binding', boundShapeId } with no position of its own.
+        const terminal = (end: 'start' | 'end') => ({
+          point: isNumber(props[end]?.x) ? toBoard(props[end]) : origin,
+          elementId: (arrowBindings.get(`${shape.id}:${end}`) ?? props[end]?.boundShapeId ?? null) as string | null,
+        });
+        const [start, end] = reversed ? [terminal('end'), terminal('start')] : [terminal('start'), terminal('end')];
+        if (start.elementId || end.elementId) {
+          return [{ ...base, type: 'connector', start, end, routing: 'straight', points: [start.point, end.point], arrowhead, ...stroke }];
+        }
+        return [{ ...base, type: 'arrow', start: start.point, end: end.point, arrowhead, ...stroke }];
+      }
+      case 'text': {
+        const text = readText(props);
+        if (!text.trim()) return [];
+        const fontSize = (fontSizes[props.size] ?? fontSizes.m) * scale;
+        const align = props.textAlign ?? props.align;
+        return [{
+          ...base, type: 'text', ...origin, width: (props.w ?? 0) * scale, height: estimateTextHeight(text, fontSize), text: textToHtml(text),
+          color, fontSize, fontFamily: fonts[props.font] ?? 'Poppins', textAlign: align === 'middle' ? 'center' : align === 'end' ? 'right' : 'left',
+        }];
+      }
+      case 'note':
+        return [{
+          ...base, type: 'note', ...origin, width: NOTE_SIZE * scale, height: (NOTE_SIZE + (props.growY ?? 0)) * scale,
+          text: readText(props), color: tints[props.color] ?? tints.yellow,
+        }];
+      case 'image': {
+        const src = assetsById.get(props.assetId)?.props?.src;
+        if (typeof src !== 'string') {
+          noteDropped(dropped, 'Images without data');
+          return [];
+        }
+        if (props.crop) noteDropped(dropped, 'Image crops');
+        // Embedded images are uploaded on import; linked ones are used as they are.
+        if (src.startsWith('data:')) assets[props.assetId] = src;
+        return [{ ...base, type: 'image', ...origin, width: props.w ?? 0, height: props.h ?? 0, src: src.startsWith('data:') ? props.assetId : src }];
+      }
+      case 'group':
+        return [];
+      case 'frame':
+        noteDropped(dropped, 'Frames');
+        return [];
+      case 'embed':
+      case 'bookmark':
+      case 'video':
+        noteDropped(dropped, 'Embeds, bookmarks and videos');
+        return [];
+      default:
+        noteDropped(dropped, `Unknown "${shape.type}" shapes`);
+        return [];
+    }
+  };
+
+  const elements = routeImportedConnectors(ordered.flatMap(convert));
+
+  // tldraw maps page to screen as (page + camera) * z.
+  const camera = page && records.find(record => record.typeName === 'camera' && record.id === `camera:${page.id}`);
+  const viewport: Viewport = camera && isNumber(camera.x) && isNumber(camera.y) && isNumber(camera.z)
+    ? { pan: { x: camera.x * camera.z, y: camera.y * camera.z }, zoom: camera.z }
+    : DEFAULT_VIEWPORT;
+
+  return {
+    file: {
+      type: BOARD_FILE_TYPE,
+      version: BOARD_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      metadata: { name: page?.name ? `tldraw: ${page.name}` : 'tldraw drawing' },
+      viewport,
+      elements,
+      assets,
+    },
+    skipped: 0,
+    dropped: describeDropped(dropped),
+  };
+};
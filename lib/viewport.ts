@@ -0,0 +1,55 @@
+import { Point, Viewport } from '../types';
+import { Bounds } from './geometry';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 5;
+// Screen pixels kept free around content when zooming to fit it.
+const FIT_PADDING = 48;
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { pan: { x: 0, y: 0 }, zoom: 1 };
+
+export const clampZoom = (zoom: number): number => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export const screenToCanvas = (point: Point, viewport: Viewport): Point => ({
+  x: (point.x - viewport.pan.x) / viewport.zoom,
+  y: (point.y - viewport.pan.y) / viewport.zoom,
+});
+
+/** Changes the zoom while keeping the board point under `screenPoint` where it is. */
+export const zoomAtPoint = (viewport: Viewport, zoom: number, screenPoint: Point): Viewport => {
+  const newZoom = clampZoom(zoom);
+  const anchor = screenToCanvas(screenPoint, viewport);
+  return {
+    zoom: newZoom,
+    pan: { x: screenPoint.x - anchor.x * newZoom, y: screenPoint.y - anchor.y * newZoom },
+  };
+};
+
+/** The part of the board currently on screen, in board coordinates. */
+export const getVisibleBounds = (viewport: Viewport, size: ViewportSize): Bounds => {
+  const topLeft = screenToCanvas({ x: 0, y: 0 }, viewport);
+  return { x: topLeft.x, y: topLeft.y, width: size.width / viewport.zoom, height: size.height / viewport.zoom };
+};
+
+/** Moves the view so `point` sits in the middle of the screen, keeping the zoom. */
+export const centerOnPoint = (viewport: Viewport, point: Point, size: ViewportSize): Viewport => ({
+  zoom: viewport.zoom,
+  pan: { x: size.width / 2 - point.x * viewport.zoom, y: size.height / 2 - point.y * viewport.zoom },
+});
+
+/** The viewport that shows all of `bounds`, centered, within the zoom limits. */
+export const fitBounds = (bounds: Bounds, size: ViewportSize): Viewport => {
+  const availableWidth = Math.max(1, size.width - FIT_PADDING * 2);
+  const availableHeight = Math.max(1, size.height - FIT_PADDING * 2);
+  const zoom = clampZoom(Math.min(
+    bounds.width > 0 ? availableWidth / bounds.width : MAX_ZOOM,
+    bounds.height > 0 ? availableHeight / bounds.height : MAX_ZOOM,
+  ));
+  const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  return centerOnPoint({ ...DEFAULT_VIEWPORT, zoom }, center, size);
+};
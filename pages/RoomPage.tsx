@@ -183,7 +183,7 @@ const RoomPageContent: React.FC = () => {
                     exit={{ y: '100%' }}
                     transition={{ type: 'spring', stiffness: 300, damping: 30 }}
                 >
-                    <Sketchboard />
+                    <Sketchboard roomId={roomId || 'default'} />
                 </motion.div>
             )}
         </AnimatePresence>
@@ -1,3 +1,5 @@
+import type { CrdtDocument, CrdtOperation } from './lib/crdt';
+
 export type ParticipantStatus = 'pending' | 'admitted' | 'denied' | 'removed';
 
 export interface User {
@@ -21,11 +23,15 @@ export enum Tool {
   Select = 'select',
   Hand = 'hand',
   Pen = 'pen',
+  Highlighter = 'highlighter',
+  Laser = 'laser',
   Eraser = 'eraser',
   Rectangle = 'rectangle',
   Circle = 'circle',
+  Shape = 'shape',
   Line = 'line',
   Arrow = 'arrow',
+  Connector = 'connector',
   Text = 'text',
   StickyNote = 'stickynote',
 }
@@ -35,16 +41,58 @@ export interface Point {
   y: number;
 }
 
-export interface PathElement {
+// The visible part of the board: screen = board * zoom + pan.
+export interface Viewport {
+  pan: Point;
+  zoom: number;
+}
+
+// A freehand sample; pressure is 0..1 and absent for devices that cannot sense it.
+export interface StrokePoint extends Point {
+  pressure?: number;
+}
+
+// Properties shared by every element on the board.
+export interface ElementBase {
   id: string;
+  // Groups this element belongs to, innermost first.
+  groupIds?: string[];
+  // Clockwise rotation in radians around the center of the element's bounds.
+  rotation?: number;
+}
+
+export type StrokeStyle = 'solid' | 'dashed' | 'dotted';
+
+// Appearance of stroked elements. Optional so elements created before styling existed render unchanged.
+export interface StrokeStyleProps {
+  // 0 (invisible) to 1 (opaque).
+  opacity?: number;
+  strokeStyle?: StrokeStyle;
+}
+
+// Interior of closed shapes; 'transparent' leaves them unfilled.
+export interface FillStyleProps {
+  fillColor?: string;
+}
+
+export interface PathElement extends ElementBase, StrokeStyleProps {
   type: 'path';
-  points: Point[];
+  points: StrokePoint[];
   color: string;
   strokeWidth: number;
+  // Highlighter strokes are translucent, constant-width and drawn beneath everything else.
+  isHighlighter?: boolean;
+}
+
+// A sample of a laser pointer trail. Trails are broadcast live and never stored as elements.
+export interface LaserPoint extends Point {
+  // Local receive time in ms, used to fade the trail out.
+  time: number;
+  // Marks the first point of a new gesture so separate presses aren't joined up.
+  isStart?: boolean;
 }
 
-export interface StickyNoteElement {
-  id:string;
+export interface StickyNoteElement extends ElementBase {
   type: 'note';
   x: number;
   y: number;
@@ -54,8 +102,7 @@ export interface StickyNoteElement {
   color: string;
 }
 
-export interface ImageElement {
-    id: string;
+export interface ImageElement extends ElementBase {
     type: 'image';
     src: string;
     x: number;
@@ -64,8 +111,20 @@ export interface ImageElement {
     height: number;
 }
 
-export interface RectangleElement {
-  id: string;
+// A rendered page of an imported document. Locked pages stay put as a background to annotate on.
+export interface PageElement extends ElementBase {
+    type: 'page';
+    src: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    documentName: string;
+    pageNumber: number;
+    locked: boolean;
+}
+
+export interface RectangleElement extends ElementBase, StrokeStyleProps, FillStyleProps {
   type: 'rectangle';
   x: number;
   y: number;
@@ -75,8 +134,7 @@ export interface RectangleElement {
   strokeWidth: number;
 }
 
-export interface CircleElement {
-  id: string;
+export interface CircleElement extends ElementBase, StrokeStyleProps, FillStyleProps {
   type: 'circle';
   x: number;
   y: number;
@@ -86,8 +144,60 @@ export interface CircleElement {
   strokeWidth: number;
 }
 
-export interface TextElement {
-  id: string;
+export type ShapeKind = 'diamond' | 'triangle' | 'rounded-rectangle' | 'hexagon' | 'star' | 'cloud' | 'callout';
+
+// Outlined preset shapes that carry their own centered label.
+export interface ShapeElement extends ElementBase, StrokeStyleProps, FillStyleProps {
+  type: 'shape';
+  shape: ShapeKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  strokeWidth: number;
+  label: string;
+}
+
+export type ArrowheadStyle = 'none' | 'open' | 'filled' | 'both';
+
+export interface LineElement extends ElementBase, StrokeStyleProps {
+  type: 'line';
+  start: Point;
+  end: Point;
+  color: string;
+  strokeWidth: number;
+}
+
+export interface ArrowElement extends ElementBase, StrokeStyleProps {
+  type: 'arrow';
+  start: Point;
+  end: Point;
+  color: string;
+  strokeWidth: number;
+  arrowhead: ArrowheadStyle;
+}
+
+export type ConnectorRouting = 'straight' | 'elbow';
+
+export interface ConnectorEndpoint {
+  // The element this end is attached to, or null when it floats freely.
+  elementId: string | null;
+  point: Point;
+}
+
+export interface ConnectorElement extends ElementBase, StrokeStyleProps {
+  type: 'connector';
+  start: ConnectorEndpoint;
+  end: ConnectorEndpoint;
+  routing: ConnectorRouting;
+  points: Point[];
+  color: string;
+  strokeWidth: number;
+  arrowhead: ArrowheadStyle;
+}
+
+export interface TextElement extends ElementBase {
   type: 'text';
   x: number;
   y: number;
@@ -100,8 +210,74 @@ export interface TextElement {
   textAlign: 'left' | 'center' | 'right';
 }
 
-export type BoardElement = PathElement | StickyNoteElement | ImageElement | RectangleElement | CircleElement | TextElement;
+export type BoardElement = PathElement | StickyNoteElement | ImageElement | PageElement | RectangleElement | CircleElement | ShapeElement | LineElement | ArrowElement | ConnectorElement | TextElement;
+
+// One element swapped for zero or more others in the same stacking position.
+export interface ElementReplacement {
+  id: string;
+  elements: BoardElement[];
+}
+
+// One element's new state. `element` brings back an element in full; `set` and `unset` change
+// only the listed fields of an existing one. Without any of them the element is only restacked;
+// without `after` (the element it sits directly above, null for the bottom) it keeps its place.
+export interface ElementUpsert {
+  id: string;
+  element?: BoardElement;
+  set?: Record<string, any>;
+  unset?: string[];
+  after?: string | null;
+}
+
+// A concrete change to the board's elements, independent of the operation that produced it.
+export interface ElementChanges {
+  upserts: ElementUpsert[];
+  deletes: string[];
+}
+
+// An entry on a user's undo or redo stack. `restores` lists the elements the changes bring back
+// after the step being reverted removed them.
+export interface HistoryStep {
+  changes: ElementChanges;
+  restores: string[];
+}
+
+// A local operation waiting to be saved, under the name of the action that made it.
+export interface PendingBoardEvent {
+  eventType: string;
+  operation: CrdtOperation;
+}
+
+// Where a peer is pointing, what tool they hold and what they have selected.
+export interface RemoteCursor {
+  userId: string;
+  name: string;
+  // In board space; null while their pointer is off the board.
+  point: Point | null;
+  tool: Tool;
+  selectedElementIds: string[];
+  // Local time of the last update, so cursors of people who went quiet can be hidden.
+  receivedAt: number;
+}
+
+// A local placeholder for an image that is still uploading, or that failed to upload.
+export interface ImageUpload {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  progress: number;
+  error?: string;
+}
+
+export type GridMode = 'none' | 'dots' | 'lines';
+
+// 'object' deletes whatever it touches; 'stroke' cuts pen strokes under the eraser.
+export type EraserMode = 'object' | 'stroke';
 
+export type ZOrderDirection = 'forward' | 'backward' | 'front' | 'back';
 
 // Types for RoomContext state management
 export interface RoomState {
@@ -109,13 +285,34 @@ export interface RoomState {
   participants: User[];
   isHost: boolean;
   messages: Message[];
+  // The merged board. `elements` is what it currently shows, bottom to top.
+  board: CrdtDocument;
   elements: BoardElement[];
-  selectedElementId: string | null;
-  history: BoardElement[][];
-  historyIndex: number;
+  // Filled by the reducer and emptied once the operations are on their way to the database.
+  outbox: PendingBoardEvent[];
+  selectedElementIds: string[];
+  // Restyled copies of selected elements, shown while a color or opacity is still being picked and not yet part of the board.
+  stylePreview: BoardElement[] | null;
+  // Only this user's own operations; other participants' edits are never undone from here.
+  undoStack: HistoryStep[];
+  redoStack: HistoryStep[];
   activeTool: Tool;
   color: string;
   strokeWidth: number;
+  fillColor: string;
+  opacity: number;
+  strokeStyle: StrokeStyle;
+  shapeKind: ShapeKind;
+  eraserMode: EraserMode;
+  // Kept here rather than in the board component so it survives hiding and showing the board.
+  viewport: Viewport;
+  gridMode: GridMode;
+  snapToGrid: boolean;
+  // Live laser pointer trails, keyed by user id.
+  laserTrails: Record<string, LaserPoint[]>;
+  // Other participants' cursors, keyed by user id.
+  cursors: Record<string, RemoteCursor>;
+  imageUploads: ImageUpload[];
   isBoardVisible: boolean;
   isLoading: boolean;
   isKicked: boolean;
@@ -132,14 +329,37 @@ export type RoomAction =
   | { type: 'SET_TOOL'; payload: Tool }
   | { type: 'SET_COLOR'; payload: string }
   | { type: 'SET_STROKE_WIDTH'; payload: number }
+  | { type: 'SET_FILL_COLOR'; payload: string }
+  | { type: 'SET_OPACITY'; payload: number }
+  | { type: 'SET_STROKE_STYLE'; payload: StrokeStyle }
+  | { type: 'SET_SHAPE_KIND'; payload: ShapeKind }
+  | { type: 'SET_ERASER_MODE'; payload: EraserMode }
+  | { type: 'SET_VIEWPORT'; payload: Viewport }
+  | { type: 'SET_GRID_MODE'; payload: GridMode }
+  | { type: 'SET_SNAP_TO_GRID'; payload: boolean }
+  | { type: 'PREVIEW_STYLE'; payload: BoardElement[] | null }
+  | { type: 'LASER_POINTER'; payload: { userId: string; points: LaserPoint[] } }
+  | { type: 'MOVE_CURSOR'; payload: Point | null }
+  | { type: 'REMOTE_CURSOR'; payload: RemoteCursor }
   | { type: 'ADD_ELEMENT'; payload: { element: BoardElement, select: boolean } }
+  | { type: 'SET_IMAGE_UPLOAD'; payload: ImageUpload }
+  | { type: 'REMOVE_IMAGE_UPLOAD'; payload: { id: string } }
+  | { type: 'ADD_ELEMENTS'; payload: { elements: BoardElement[], select: boolean } }
   | { type: 'UPDATE_ELEMENT'; payload: BoardElement }
   | { type: 'DELETE_ELEMENT'; payload: { id: string } }
-  | { type: 'SET_SELECTED_ELEMENT'; payload: string | null }
+  | { type: 'UPDATE_ELEMENTS'; payload: BoardElement[] }
+  | { type: 'DELETE_ELEMENTS'; payload: { ids: string[] } }
+  | { type: 'REORDER_ELEMENTS'; payload: { ids: string[]; direction: ZOrderDirection } }
+  | { type: 'REPLACE_ELEMENTS'; payload: { replacements: ElementReplacement[] } }
+  | { type: 'SET_SELECTED_ELEMENTS'; payload: string[] }
   | { type: 'UNDO' }
   | { type: 'REDO' }
+  | { type: 'REMOTE_BOARD_EVENT'; payload: { eventType: string; data: any } }
   | { type: 'CLEAR_CANVAS' }
   | { type: 'SET_INITIAL_ELEMENTS'; payload: BoardElement[] }
+  | { type: 'RESTORE_VERSION'; payload: BoardElement[] }
+  | { type: 'SET_BOARD'; payload: CrdtDocument }
+  | { type: 'BOARD_EVENTS_SENT'; payload: number }
   | { type: 'SEND_MESSAGE'; payload: Message }
   | { type: 'TOGGLE_BOARD_VISIBILITY' }
   | { type: 'THEME_CHANGED'; payload: string | null }